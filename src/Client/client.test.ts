@@ -1,10 +1,24 @@
 jest.mock('pino');
 import { initRabbit } from '../Init/init';
 import { InitRabbitOptions } from '../Init/init.type';
+import { ClientInitOptions } from './client.type';
 import { ConnectionUrl } from 'amqp-connection-manager';
-import { getClient } from './client';
+import { Client, getClient } from './client';
 import { ConnectionSet } from '../Common/cache/cache';
 import { setupR4bbit } from '../Common/setupRabbit/setupRabbit';
+import {
+  CircuitOpenError,
+  DecodeError,
+  EncodeError,
+  MissingRespondersError,
+  RemoteRpcError,
+  RpcAbortedError,
+  RpcRetryError,
+  RpcTimeoutError,
+  UnroutableMessageError,
+} from '../Common/errors/errors';
+import { CANCEL_EXCHANGE_NAME } from '../Common/types';
+import { lastValueFrom, take, toArray } from 'rxjs';
 
 jest.mock('../Init/init', () => ({
   initRabbit: jest.fn(),
@@ -12,15 +26,14 @@ jest.mock('../Init/init', () => ({
 jest.mock('../Common/cache/cache', () => ({
   ConnectionSet: {
     assert: jest.fn(),
+    assertDelayQueue: jest
+      .fn()
+      .mockImplementation(
+        async (channelWrapper, exchange, routingKey, delay) =>
+          `r4bbit.delay.${exchange}.${routingKey}.${delay}`
+      ),
   },
 }));
-const onceMock = jest.fn();
-jest.mock('events', () => ({
-  ...jest.requireActual('events'),
-  EventEmitter: jest.fn().mockImplementation(() => ({
-    once: onceMock,
-  })),
-}));
 
 const connectionUrls: ConnectionUrl | ConnectionUrl[] = '';
 const options: InitRabbitOptions = {};
@@ -67,19 +80,69 @@ describe('Client tests', () => {
     // then
     expect(ConnectionSet.assert).toBeCalled();
   });
+
+  it('should publish a delayed message to its wait queue', async () => {
+    const client = await getClient(connectionUrls, options);
+
+    // when
+    await client.publishMessage('test', {
+      exchangeName: 'test',
+      routingKey: 'reminders.send',
+      delay: 5_000,
+    });
+    await client.publishMessage('test', {
+      exchangeName: 'test',
+      routingKey: 'reminders.send',
+      deliverAt: new Date(Date.now() + 1_500),
+    });
+
+    // then
+    expect(
+      channelWrapper.publish.mock.calls.map(([exchange, queue]) => [
+        exchange,
+        queue,
+      ])
+    ).toEqual([
+      ['', 'r4bbit.delay.test.reminders.send.5000'],
+      ['', 'r4bbit.delay.test.reminders.send.2000'],
+    ]);
+  });
 });
 
-describe('RPC tests', () => {
+describe('Publisher confirms tests', () => {
+  let returnMessage: (msg: unknown) => void;
+  let isRoutable: boolean;
   const channelWrapper = {
-    publish: jest.fn(),
-    consume: jest.fn(),
+    addSetup: jest.fn().mockImplementation(async (setup) =>
+      setup({
+        on: (event: string, listener: (msg: unknown) => void) =>
+          (returnMessage = listener),
+      })
+    ),
+    consume: jest.fn().mockResolvedValue(undefined),
+    // the broker returns an unroutable mandatory message before confirming it
+    publish: jest
+      .fn()
+      .mockImplementation(async (exchange, routingKey, content, options) => {
+        if (options.mandatory && (!isRoutable || routingKey === 'nowhere')) {
+          returnMessage({
+            fields: { replyText: 'NO_ROUTE' },
+            properties: { headers: options.headers },
+          });
+        }
+      }),
   };
 
-  (initRabbit as jest.Mock).mockResolvedValue(channelWrapper);
+  const createClient = async (initOptions: InitRabbitOptions = {}) => {
+    (initRabbit as jest.Mock).mockResolvedValue(channelWrapper);
+    const client = new Client();
+    await client.init(connectionUrls, initOptions);
+    return client;
+  };
 
   beforeEach(() => {
     jest.clearAllMocks();
-    jest.resetModules();
+    isRoutable = true;
     setupR4bbit({
       logger: {
         engine: {
@@ -91,67 +154,1308 @@ describe('RPC tests', () => {
     });
   });
 
-  afterEach(() => {
-    jest.clearAllMocks();
-    jest.resetModules();
+  it('should resolve a routed mandatory message', async () => {
+    // given
+    const client = await createClient();
+
+    // when
+    await client.publishMessage('test', {
+      exchangeName: 'test',
+      routingKey: 'test',
+      mandatory: true,
+    });
+
+    // then
+    expect(channelWrapper.addSetup).toBeCalledTimes(1);
+    expect(channelWrapper.publish).toBeCalledWith(
+      'test',
+      'test',
+      expect.anything(),
+      expect.objectContaining({
+        mandatory: true,
+        headers: expect.objectContaining({
+          'x-publish-id': expect.any(String),
+        }),
+      })
+    );
   });
 
-  it('should trigger consume method while RPC call', async () => {
+  it('should publish a message with its priority', async () => {
     // given
+    const client = await createClient();
 
-    (initRabbit as jest.Mock).mockResolvedValue(channelWrapper);
-    let timeout: NodeJS.Timeout;
+    // when
+    await client.publishMessage('test', {
+      exchangeName: 'test',
+      routingKey: 'test',
+      priority: 5,
+    });
 
-    onceMock.mockReset();
-    onceMock.mockImplementation((_, resolve) => {
-      timeout = setTimeout(() => {
-        resolve('response XYZ');
-      }, 2_000);
+    // then
+    expect(channelWrapper.publish).toBeCalledWith(
+      'test',
+      'test',
+      expect.anything(),
+      expect.objectContaining({ priority: 5 })
+    );
+  });
 
-      return {
-        removeListener: () => {
-          timeout && clearTimeout(timeout);
-        },
-      };
+  it('should reject a returned mandatory message', async () => {
+    // given
+    const client = await createClient();
+    isRoutable = false;
+
+    // when
+    const error = await client
+      .publishMessage('test', {
+        exchangeName: 'test',
+        routingKey: 'test',
+        mandatory: true,
+      })
+      .catch((err) => err);
+
+    // then
+    expect(error).toBeInstanceOf(UnroutableMessageError);
+    expect(error).toMatchObject({
+      exchangeName: 'test',
+      routingKey: 'test',
+      requestId: expect.any(String),
+      replyText: 'NO_ROUTE',
     });
-    const message = { message: 'testMessage' };
+  });
+
+  it('should reject an unroutable rpc request without waiting for the timeout', async () => {
+    // given
+    const client = await createClient();
+    isRoutable = false;
 
     // when
-    const client = await getClient(connectionUrls, options);
-    await client.publishRPCMessage(message, {
+    const response = client.publishRPCMessage('test', {
       exchangeName: 'test',
       routingKey: 'test',
       replyQueueName: 'test',
-      timeout: 3_000,
+      mandatory: true,
+      timeout: 60_000,
     });
 
     // then
-    expect(ConnectionSet.assert).toBeCalled();
-    expect(channelWrapper.consume).toBeCalled();
+    await expect(response).rejects.toBeInstanceOf(UnroutableMessageError);
   });
 
-  it('should trigger timeout', async () => {
+  it('should report the outcome of every batch message', async () => {
     // given
-    (initRabbit as jest.Mock).mockResolvedValue(channelWrapper);
-    onceMock.mockReset();
-    onceMock.mockReturnValue({
-      removeListener: jest.fn(),
+    const client = await createClient();
+
+    // when
+    const results = await client.publishBatch(
+      [
+        { message: { id: 1 }, routingKey: 'users.created' },
+        { message: { id: 2 }, routingKey: 'nowhere' },
+        {
+          message: 'plain',
+          routingKey: 'users.deleted',
+          sendType: 'string',
+          headers: { 'x-tenant': 'acme' },
+        },
+      ],
+      { exchangeName: 'test', mandatory: true }
+    );
+
+    // then
+    expect(results).toEqual([
+      { routingKey: 'users.created', isPublished: true },
+      {
+        routingKey: 'nowhere',
+        isPublished: false,
+        error: expect.any(UnroutableMessageError),
+      },
+      { routingKey: 'users.deleted', isPublished: true },
+    ]);
+    const [first, , third] = channelWrapper.publish.mock.calls;
+    expect(first[2]).toBe(JSON.stringify({ id: 1 }));
+    expect(third[2]).toBe('plain');
+    expect(third[3].headers).toMatchObject({
+      'x-tenant': 'acme',
+      'x-request-id': first[3].headers['x-request-id'],
     });
+    expect(ConnectionSet.assert).toBeCalledTimes(1);
+  });
 
-    const message = { message: 'testMessage' };
+  it('should publish the other batch messages when one cannot be encoded', async () => {
+    // given
+    const client = await createClient();
 
     // when
-    const client = await getClient(connectionUrls, options);
+    const results = await client.publishBatch(
+      [
+        { message: 42, routingKey: 'users.invalid', sendType: 'object' },
+        { message: { id: 1 }, routingKey: 'users.created' },
+      ],
+      { exchangeName: 'test' }
+    );
+
+    // then
+    expect(results).toEqual([
+      {
+        routingKey: 'users.invalid',
+        isPublished: false,
+        error: expect.any(EncodeError),
+      },
+      { routingKey: 'users.created', isPublished: true },
+    ]);
+    expect(channelWrapper.publish).toBeCalledTimes(1);
+  });
+
+  it('should refuse confirm without a confirm channel', async () => {
+    // given
+    const client = await createClient({
+      createChannelOptions: { confirm: false },
+    });
+
+    // when & then
     await expect(
-      client.publishRPCMessage(message, {
+      client.publishMessage('test', {
+        exchangeName: 'test',
+        routingKey: 'test',
+        confirm: true,
+      })
+    ).rejects.toThrow('require a confirm channel');
+    expect(channelWrapper.publish).not.toBeCalled();
+  });
+});
+
+describe('RPC tests', () => {
+  let dispatchReply: (msg: unknown) => void;
+  const channelWrapper = {
+    publish: jest.fn(),
+    consume: jest.fn().mockImplementation(async (queue, onMessage) => {
+      dispatchReply = onMessage;
+    }),
+  };
+
+  const createClient = async (initOptions: ClientInitOptions = options) => {
+    (initRabbit as jest.Mock).mockResolvedValue(channelWrapper);
+    const client = new Client();
+    await client.init(connectionUrls, initOptions);
+    return client;
+  };
+
+  const rpcOptions = {
+    exchangeName: 'test',
+    routingKey: 'test',
+    replyQueueName: 'test',
+  };
+
+  // answers the n-th published request through the shared reply consumer
+  const reply = (
+    content: unknown,
+    headers: Record<string, unknown> = {},
+    publishIndex = 0
+  ) => {
+    const [, , , { correlationId }] =
+      channelWrapper.publish.mock.calls[publishIndex];
+    dispatchReply({
+      content: Buffer.from(JSON.stringify(content)),
+      properties: {
+        correlationId,
+        headers: { 'x-send-type': 'json', ...headers },
+      },
+    });
+  };
+
+  // answers the n-th published request with content that is not valid json
+  const replyMalformed = (
+    headers: Record<string, unknown> = {},
+    publishIndex = 0
+  ) => {
+    const [, , , { correlationId }] =
+      channelWrapper.publish.mock.calls[publishIndex];
+    dispatchReply({
+      content: Buffer.from('{"broken'),
+      properties: {
+        correlationId,
+        headers: { 'x-send-type': 'json', ...headers },
+      },
+    });
+  };
+
+  const waitForPublish = async (count = 1) => {
+    for (let i = 0; i < 100; i++) {
+      if (channelWrapper.publish.mock.calls.length >= count) return;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setupR4bbit({
+      logger: {
+        engine: {
+          info: (str: string) => str,
+          debug: (str: string) => str,
+          error: (str: string) => str,
+        },
+      },
+    });
+  });
+
+  it('should resolve with the reply of the matching correlationId', async () => {
+    // given
+    const client = await createClient();
+
+    // when
+    const response = client.publishRPCMessage(
+      { message: 'testMessage' },
+      { ...rpcOptions, timeout: 3_000 }
+    );
+    await waitForPublish();
+    reply('response XYZ');
+
+    // then
+    await expect(response).resolves.toEqual({ content: 'response XYZ' });
+    expect(ConnectionSet.assert).toBeCalled();
+    expect(channelWrapper.consume).toBeCalled();
+  });
+
+  it('should stamp the request with its deadline and expiration', async () => {
+    // given
+    const client = await createClient();
+    const sentAt = Date.now();
+
+    // when
+    const response = client.publishRPCMessage(
+      { message: 'testMessage' },
+      { ...rpcOptions, timeout: 3_000 }
+    );
+    await waitForPublish();
+    reply('on time');
+    await response;
+
+    // then
+    const [, , , publishOptions] = channelWrapper.publish.mock.calls[0];
+    expect(publishOptions.expiration).toBe(3_000);
+    expect(publishOptions.headers['x-deadline']).toBeGreaterThanOrEqual(
+      sentAt + 3_000
+    );
+  });
+
+  it('should consume the reply queue only once for many calls', async () => {
+    // given
+    const client = await createClient();
+
+    // when
+    const responses = [1, 2, 3].map((id) =>
+      client.publishRPCMessage({ id }, { ...rpcOptions, timeout: 3_000 })
+    );
+    await waitForPublish(3);
+    reply('third', {}, 2);
+    reply('first', {}, 0);
+    reply('second', {}, 1);
+
+    // then
+    await expect(Promise.all(responses)).resolves.toEqual([
+      { content: 'first' },
+      { content: 'second' },
+      { content: 'third' },
+    ]);
+    expect(channelWrapper.consume).toBeCalledTimes(1);
+  });
+
+  it('should use the direct reply-to pseudo-queue', async () => {
+    // given
+    const client = await createClient();
+
+    // when
+    const response = client.publishRPCMessage(
+      { message: 'testMessage' },
+      {
         exchangeName: 'test',
         routingKey: 'test',
-        replyQueueName: 'test',
-        timeout: 1_000,
+        replyMode: 'direct-reply-to',
+        timeout: 3_000,
+      }
+    );
+    await waitForPublish();
+    reply('direct');
+
+    // then
+    await expect(response).resolves.toEqual({ content: 'direct' });
+    expect(ConnectionSet.assert).toBeCalledTimes(1);
+    expect(ConnectionSet.assert).toBeCalledWith(channelWrapper, 'test');
+    expect(channelWrapper.consume).toBeCalledWith(
+      'amq.rabbitmq.reply-to',
+      expect.any(Function),
+      expect.objectContaining({ noAck: true })
+    );
+    expect(channelWrapper.publish).toBeCalledWith(
+      'test',
+      'test',
+      expect.anything(),
+      expect.objectContaining({ replyTo: 'amq.rabbitmq.reply-to' })
+    );
+  });
+
+  it('should require replyQueueName without direct reply-to', async () => {
+    // given
+    const client = await createClient();
+
+    // when & then
+    await expect(
+      client.publishRPCMessage(
+        { message: 'testMessage' },
+        { exchangeName: 'test', routingKey: 'test' }
+      )
+    ).rejects.toThrow('replyQueueName is required');
+    expect(channelWrapper.publish).not.toBeCalled();
+  });
+
+  it('should ignore a reply nobody waits for', async () => {
+    // given
+    await createClient();
+
+    // when & then
+    expect(() =>
+      dispatchReply({
+        content: Buffer.from('"late"'),
+        properties: { correlationId: 'unknown', headers: {} },
       })
-    ).rejects.toEqual('Timeout of 1000ms occured for the given rpc message');
+    ).not.toThrow();
+  });
+
+  it('should trigger timeout', async () => {
+    // given
+    const client = await createClient();
+
+    // when
+    const error = await client
+      .publishRPCMessage(
+        { message: 'testMessage' },
+        { ...rpcOptions, timeout: 1_000 }
+      )
+      .catch((err) => err);
+    expect(error).toBeInstanceOf(RpcTimeoutError);
+    expect(error).toMatchObject({
+      exchangeName: 'test',
+      routingKey: 'test',
+      timeout: 1_000,
+      correlationId: expect.any(String),
+      requestId: expect.any(String),
+      message: 'Timeout of 1000ms occured for the given rpc message',
+    });
 
     // then
     expect(ConnectionSet.assert).toBeCalled();
   });
+
+  it('should reject with the error replied by the server', async () => {
+    // given
+    const client = await createClient();
+
+    // when
+    const response = client.publishRPCMessage(
+      { message: 'testMessage' },
+      { ...rpcOptions, timeout: 1_000 }
+    );
+    await waitForPublish();
+    reply(
+      { name: 'Error', message: 'User not found', code: 'NOT_FOUND' },
+      { 'x-reply-status': 'error' }
+    );
+
+    // then
+    await expect(response).rejects.toMatchObject({
+      name: 'RemoteRpcError',
+      message: 'User not found',
+      code: 'NOT_FOUND',
+    });
+  });
+
+  it('should reject with DecodeError when the reply cannot be decoded', async () => {
+    // given
+    const client = await createClient();
+
+    // when
+    const response = client.publishRPCMessage(
+      { message: 'testMessage' },
+      { ...rpcOptions, timeout: 3_000 }
+    );
+    await waitForPublish();
+
+    // then
+    expect(() => replyMalformed()).not.toThrow();
+    await expect(response).rejects.toBeInstanceOf(DecodeError);
+  });
+
+  it('should answer an identical call from the response cache', async () => {
+    // given
+    const client = await createClient();
+    const first = client.publishRPCMessage(
+      { id: 1 },
+      { ...rpcOptions, timeout: 3_000, cache: true }
+    );
+    await waitForPublish();
+    reply('cached');
+    await first;
+
+    // when
+    const second = await client.publishRPCMessage(
+      { id: 1 },
+      { ...rpcOptions, timeout: 3_000, cache: true }
+    );
+
+    // then
+    expect(second).toEqual({ content: 'cached' });
+    expect(channelWrapper.publish).toBeCalledTimes(1);
+  });
+
+  it('should not answer a call with another responseContains from the cache', async () => {
+    // given
+    const client = await createClient();
+    const first = client.publishRPCMessage(
+      { id: 3 },
+      { ...rpcOptions, timeout: 3_000, cache: true }
+    );
+    await waitForPublish();
+    reply('content only');
+    await first;
+
+    // when
+    const second = client.publishRPCMessage(
+      { id: 3 },
+      {
+        ...rpcOptions,
+        timeout: 3_000,
+        cache: true,
+        responseContains: { content: true, headers: true },
+      }
+    );
+    await waitForPublish(2);
+    reply('with headers', {}, 1);
+
+    // then
+    await expect(second).resolves.toEqual(
+      expect.objectContaining({
+        content: 'with headers',
+        headers: expect.any(Object),
+      })
+    );
+    expect(channelWrapper.publish).toBeCalledTimes(2);
+  });
+
+  it('should not cache a reply the server sent with max age 0', async () => {
+    // given
+    const client = await createClient();
+    const first = client.publishRPCMessage(
+      { id: 2 },
+      { ...rpcOptions, timeout: 3_000, cache: true }
+    );
+    await waitForPublish();
+    reply('fresh', { 'x-cache-max-age': 0 });
+    await first;
+
+    // when
+    const second = client.publishRPCMessage(
+      { id: 2 },
+      { ...rpcOptions, timeout: 3_000, cache: true }
+    );
+    await waitForPublish(2);
+    reply('fresher', {}, 1);
+
+    // then
+    await expect(second).resolves.toEqual({ content: 'fresher' });
+    expect(channelWrapper.publish).toBeCalledTimes(2);
+  });
+
+  it('should collect multiple replies', async () => {
+    // given
+    const client = await createClient();
+
+    // when
+    const responses = client.publishMultipleRPC(
+      { message: 'testMessage' },
+      { ...rpcOptions, timeout: 1_000, waitedReplies: 2 }
+    );
+    await waitForPublish();
+    reply('server-1');
+    reply({ name: 'Error', message: 'Boom' }, { 'x-reply-status': 'error' });
+
+    // then
+    await expect(responses).resolves.toEqual([
+      { content: 'server-1' },
+      { error: expect.any(RemoteRpcError) },
+    ]);
+  });
+
+  it('should emit every reply as it arrives', async () => {
+    // given
+    const client = await createClient();
+    const received: unknown[] = [];
+
+    // when
+    const replies = lastValueFrom(
+      client
+        .observeMultipleRPC(
+          { message: 'testMessage' },
+          { ...rpcOptions, timeout: 60_000, waitedReplies: 2 }
+        )
+        .pipe(toArray())
+    );
+    client
+      .observeMultipleRPC(
+        { message: 'testMessage' },
+        { ...rpcOptions, timeout: 60_000 }
+      )
+      .pipe(take(1))
+      .subscribe((reply) => received.push(reply.preparedResponse));
+    await waitForPublish(2);
+    reply('server-1', {}, 0);
+    reply('server-2', {}, 0);
+    reply('server-1', {}, 1);
+    reply('server-2', {}, 1);
+
+    // then
+    await expect(replies).resolves.toEqual([
+      expect.objectContaining({ preparedResponse: { content: 'server-1' } }),
+      expect.objectContaining({ preparedResponse: { content: 'server-2' } }),
+    ]);
+    expect(received).toEqual([{ content: 'server-1' }]);
+  });
+
+  it('should cancel the request when unsubscribed early', async () => {
+    // given
+    const client = await createClient();
+    const next = jest.fn();
+
+    // when
+    const subscription = client
+      .observeMultipleRPC(
+        { message: 'testMessage' },
+        { ...rpcOptions, timeout: 60_000 }
+      )
+      .subscribe(next);
+    await waitForPublish();
+    subscription.unsubscribe();
+    reply('too late');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // then
+    expect(next).not.toBeCalled();
+    expect(channelWrapper.publish).toHaveBeenLastCalledWith(
+      CANCEL_EXCHANGE_NAME,
+      'test',
+      '',
+      expect.objectContaining({ correlationId: expect.any(String) })
+    );
+  });
+
+  it('should resolve with the first reply and cancel the rest', async () => {
+    // given
+    const client = await createClient();
+
+    // when
+    const response = client.publishMultipleRPC(
+      { message: 'testMessage' },
+      { ...rpcOptions, timeout: 60_000, strategy: 'first' }
+    );
+    await waitForPublish();
+    reply('fastest');
+    reply('slower');
+
+    // then
+    await expect(response).resolves.toEqual({ content: 'fastest' });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(channelWrapper.publish).toHaveBeenLastCalledWith(
+      CANCEL_EXCHANGE_NAME,
+      'test',
+      '',
+      expect.objectContaining({ correlationId: expect.any(String) })
+    );
+  });
+
+  it('should resolve with the reducer result', async () => {
+    // given
+    const client = await createClient();
+
+    // when
+    const response = client.publishMultipleRPC<number[]>(
+      { message: 'testMessage' },
+      {
+        ...rpcOptions,
+        timeout: 500,
+        strategy: {
+          initial: [],
+          reducer: (prices, reply) => ({
+            acc: [...prices, reply.content as number].sort(),
+            done: false,
+          }),
+        },
+      }
+    );
+    await waitForPublish();
+    reply(7);
+    reply(3);
+
+    // then
+    await expect(response).resolves.toEqual([3, 7]);
+  });
+
+  it('should complete once every expected responder replied', async () => {
+    // given
+    const client = await createClient();
+    const onUnexpectedReply = jest.fn();
+
+    // when
+    const responses = client.publishMultipleRPC(
+      { message: 'testMessage' },
+      {
+        ...rpcOptions,
+        timeout: 60_000,
+        expectedResponders: ['users', 'orders'],
+        onUnexpectedReply,
+        responseContains: { content: true, signature: true },
+      }
+    );
+    await waitForPublish();
+    reply('users up', { 'x-reply-signature': 'users' });
+    reply('billing up', { 'x-reply-signature': 'billing' });
+    reply('orders up', { 'x-reply-signature': 'orders' });
+
+    // then
+    await expect(responses).resolves.toEqual([
+      { content: 'users up', signature: 'users' },
+      { content: 'orders up', signature: 'orders' },
+    ]);
+    expect(onUnexpectedReply).toBeCalledWith({
+      content: 'billing up',
+      signature: 'billing',
+    });
+  });
+
+  it('should report the expected responders missing on timeout', async () => {
+    // given
+    const client = await createClient();
+
+    // when
+    const responses = client.publishMultipleRPC(
+      { message: 'testMessage' },
+      {
+        ...rpcOptions,
+        timeout: 500,
+        expectedResponders: ['users', 'orders'],
+      }
+    );
+    await waitForPublish();
+    reply('users up', { 'x-reply-signature': 'users' });
+    reply('billing up', { 'x-reply-signature': 'billing' });
+
+    // then
+    const error = await responses.catch((err) => err);
+    expect(error).toBeInstanceOf(MissingRespondersError);
+    expect(error).toMatchObject({
+      missingResponders: ['orders'],
+      replies: [{ content: 'users up' }],
+    });
+  });
+
+  it('should fail fast once the circuit of the route is open', async () => {
+    // given
+    const client = await createClient();
+    const breakerOptions = {
+      ...rpcOptions,
+      timeout: 1_000,
+      circuitBreaker: { minimumCalls: 2, windowSize: 2 },
+    };
+    const failures = [0, 1].map(() =>
+      client.publishRPCMessage('test', breakerOptions).catch((err) => err)
+    );
+    await waitForPublish(2);
+    [0, 1].forEach((index) =>
+      reply(
+        { name: 'Error', message: 'Down' },
+        { 'x-reply-status': 'error' },
+        index
+      )
+    );
+    await Promise.all(failures);
+
+    // when
+    const response = client.publishRPCMessage('test', breakerOptions);
+
+    // then
+    await expect(response).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(channelWrapper.publish).toBeCalledTimes(2);
+    expect(client.circuitBreakers.getState('test', 'test')).toBe('open');
+  });
+
+  it('should hold rpc calls above the in-flight limit of the routing key', async () => {
+    // given
+    const client = await createClient({
+      limits: { perRoutingKey: { maxInFlight: 1 } },
+    });
+
+    // when
+    const first = client.publishRPCMessage('first', {
+      ...rpcOptions,
+      timeout: 3_000,
+    });
+    const second = client.publishRPCMessage('second', {
+      ...rpcOptions,
+      timeout: 3_000,
+    });
+    const queuedTooLong = client.publishRPCMessage('third', {
+      ...rpcOptions,
+      timeout: 200,
+    });
+    await waitForPublish();
+
+    // then
+    await expect(queuedTooLong).rejects.toMatchObject({
+      scope: 'test',
+      reason: 'timeout',
+    });
+    expect(channelWrapper.publish).toBeCalledTimes(1);
+
+    reply('first reply', {}, 0);
+    await expect(first).resolves.toEqual({ content: 'first reply' });
+    await waitForPublish(2);
+    reply('second reply', {}, 1);
+    await expect(second).resolves.toEqual({ content: 'second reply' });
+  });
+
+  it('should hold observed multiple rpc calls until the subscription ends', async () => {
+    // given
+    const client = await createClient({
+      limits: { perRoutingKey: { maxInFlight: 1 } },
+    });
+
+    // when
+    const subscription = client
+      .observeMultipleRPC(
+        { message: 'first' },
+        { ...rpcOptions, timeout: 3_000 }
+      )
+      .subscribe();
+    await waitForPublish();
+    const queuedTooLong = client.publishRPCMessage('second', {
+      ...rpcOptions,
+      timeout: 200,
+    });
+
+    // then
+    await expect(queuedTooLong).rejects.toMatchObject({
+      scope: 'test',
+      reason: 'timeout',
+    });
+
+    subscription.unsubscribe();
+    const released = client.publishRPCMessage('third', {
+      ...rpcOptions,
+      timeout: 3_000,
+    });
+    await waitForPublish(3);
+    reply('third reply', {}, 2);
+    await expect(released).resolves.toEqual({ content: 'third reply' });
+  });
+
+  it('should release the in-flight slot of a message whose exchange assertion failed', async () => {
+    // given
+    const client = await createClient({
+      limits: { perRoutingKey: { maxInFlight: 1 } },
+    });
+    (ConnectionSet.assert as jest.Mock).mockRejectedValueOnce(
+      new Error('Exchange declared with another type')
+    );
+
+    // when
+    const failed = client.publishMessage('first', rpcOptions);
+    const published = failed.catch(() =>
+      client.publishMessage('second', { ...rpcOptions, timeout: 200 })
+    );
+
+    // then
+    await expect(failed).rejects.toThrow('Exchange declared with another type');
+    await expect(published).resolves.toBeUndefined();
+    expect(channelWrapper.publish).toBeCalledTimes(1);
+  });
+
+  it('should stop waiting for the limits of a message on timeout and abort', async () => {
+    // given
+    const client = await createClient({
+      limits: { perRoutingKey: { maxInFlight: 1 } },
+    });
+    const controller = new AbortController();
+    channelWrapper.publish.mockReturnValueOnce(new Promise(() => undefined));
+    client.publishMessage('held', rpcOptions);
+    await waitForPublish();
+
+    // when
+    const timedOut = client.publishMessage('second', {
+      ...rpcOptions,
+      timeout: 50,
+    });
+    const aborted = client.publishMessage('third', {
+      ...rpcOptions,
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    // then
+    await Promise.all([
+      expect(timedOut).rejects.toMatchObject({ reason: 'timeout' }),
+      expect(aborted).rejects.toMatchObject({ reason: 'aborted' }),
+    ]);
+  });
+
+  it('should retry a timed out message with the same request id', async () => {
+    // given
+    const client = await createClient();
+
+    // when
+    const error = await client
+      .publishRPCMessage(
+        { message: 'testMessage' },
+        {
+          ...rpcOptions,
+          timeout: 100,
+          retry: { maxAttempts: 2, initialDelay: 10 },
+        }
+      )
+      .catch((err) => err);
+
+    // then
+    expect(error).toBeInstanceOf(RpcRetryError);
+    expect((error as RpcRetryError).attempts).toHaveLength(2);
+
+    const [first, second] = channelWrapper.publish.mock.calls.map(
+      ([, , , publishOptions]) => publishOptions.headers
+    );
+    expect(second['x-request-id']).toBe(first['x-request-id']);
+    expect(second['x-idempotency-key']).toBe(first['x-idempotency-key']);
+    expect(first['x-idempotency-key']).toEqual(expect.any(String));
+  });
+
+  it('should reject and publish a cancellation when aborted', async () => {
+    // given
+    const client = await createClient();
+    const controller = new AbortController();
+
+    // when
+    const response = client.publishRPCMessage(
+      { message: 'testMessage' },
+      { ...rpcOptions, timeout: 1_000, signal: controller.signal }
+    );
+    await waitForPublish();
+    controller.abort();
+
+    // then
+    await expect(response).rejects.toBeInstanceOf(RpcAbortedError);
+    expect(channelWrapper.publish).toHaveBeenLastCalledWith(
+      CANCEL_EXCHANGE_NAME,
+      'test',
+      '',
+      expect.objectContaining({ correlationId: expect.any(String) })
+    );
+  });
+
+  it('should send identical coalesced calls once', async () => {
+    // given
+    const client = await createClient();
+
+    // when
+    const first = client.publishRPCMessage(
+      { id: 'sku-1' },
+      { ...rpcOptions, timeout: 3_000, coalesce: true }
+    );
+    const second = client.publishRPCMessage(
+      { id: 'sku-1' },
+      { ...rpcOptions, timeout: 3_000, coalesce: true }
+    );
+    await waitForPublish();
+    reply('catalog item');
+
+    // then
+    await expect(first).resolves.toEqual({ content: 'catalog item' });
+    await expect(second).resolves.toEqual({ content: 'catalog item' });
+    expect(channelWrapper.publish).toBeCalledTimes(1);
+  });
+
+  it('should apply the timeout of every coalesced caller on its own', async () => {
+    // given
+    const client = await createClient();
+
+    // when
+    const patient = client.publishRPCMessage(
+      { id: 'sku-3' },
+      { ...rpcOptions, timeout: 3_000, coalesce: true }
+    );
+    const impatient = client.publishRPCMessage(
+      { id: 'sku-3' },
+      { ...rpcOptions, timeout: 50, coalesce: true }
+    );
+    await expect(impatient).rejects.toBeInstanceOf(RpcTimeoutError);
+    reply('catalog item');
+
+    // then
+    await expect(patient).resolves.toEqual({ content: 'catalog item' });
+    expect(channelWrapper.publish).toBeCalledTimes(1);
+    expect(channelWrapper.publish).toBeCalledWith(
+      'test',
+      'test',
+      expect.anything(),
+      expect.objectContaining({ expiration: 3_000 })
+    );
+  });
+
+  it('should not join a coalesced call that times out before the caller', async () => {
+    // given
+    const client = await createClient();
+
+    // when
+    const impatient = client.publishRPCMessage(
+      { id: 'sku-4' },
+      { ...rpcOptions, timeout: 50, coalesce: true }
+    );
+    const patient = client.publishRPCMessage(
+      { id: 'sku-4' },
+      { ...rpcOptions, timeout: 3_000, coalesce: true }
+    );
+    await expect(impatient).rejects.toBeInstanceOf(RpcTimeoutError);
+    reply('catalog item', {}, 1);
+
+    // then
+    await expect(patient).resolves.toEqual({ content: 'catalog item' });
+    expect(
+      channelWrapper.publish.mock.calls
+        .filter(([exchange]) => exchange === 'test')
+        .map(([, , , { expiration }]) => expiration)
+    ).toEqual([50, 3_000]);
+  });
+
+  it('should count a timed out coalesced call for the circuit breaker', async () => {
+    // given
+    const client = await createClient();
+    const breakerOptions = {
+      ...rpcOptions,
+      timeout: 50,
+      coalesce: true,
+      circuitBreaker: { minimumCalls: 1, windowSize: 1 },
+    };
+
+    // when
+    const response = client.publishRPCMessage({ id: 'sku-6' }, breakerOptions);
+    await expect(response).rejects.toBeInstanceOf(RpcTimeoutError);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    // then
+    expect(client.circuitBreakers.getState('test', 'test')).toBe('open');
+  });
+
+  it('should reject coalesced calls with retry', async () => {
+    // given
+    const client = await createClient();
+
+    // when
+    const response = client.publishRPCMessage(
+      { id: 'sku-5' },
+      { ...rpcOptions, coalesce: true, retry: { maxAttempts: 2 } }
+    );
+
+    // then
+    await expect(response).rejects.toThrow('can not be combined with retry');
+    expect(channelWrapper.publish).not.toBeCalled();
+  });
+
+  it('should cancel a coalesced call only when its last caller aborts', async () => {
+    // given
+    const client = await createClient();
+    const firstController = new AbortController();
+    const secondController = new AbortController();
+    const first = client.publishRPCMessage(
+      { id: 'sku-2' },
+      { ...rpcOptions, coalesce: true, signal: firstController.signal }
+    );
+    const second = client.publishRPCMessage(
+      { id: 'sku-2' },
+      { ...rpcOptions, coalesce: true, signal: secondController.signal }
+    );
+    await waitForPublish();
+
+    // when
+    firstController.abort();
+    await expect(first).rejects.toBeInstanceOf(RpcAbortedError);
+    const publishedAfterFirstAbort = channelWrapper.publish.mock.calls.length;
+    secondController.abort();
+    await expect(second).rejects.toBeInstanceOf(RpcAbortedError);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // then
+    expect(publishedAfterFirstAbort).toBe(1);
+    expect(channelWrapper.publish).toHaveBeenLastCalledWith(
+      CANCEL_EXCHANGE_NAME,
+      'test',
+      '',
+      expect.objectContaining({ correlationId: expect.any(String) })
+    );
+  });
+
+  it('should not publish when the signal is already aborted', async () => {
+    // given
+    const client = await createClient();
+    const controller = new AbortController();
+    controller.abort();
+
+    // when
+    await expect(
+      client.publishMultipleRPC(
+        { message: 'testMessage' },
+        { ...rpcOptions, signal: controller.signal }
+      )
+    ).rejects.toBeInstanceOf(RpcAbortedError);
+
+    // then
+    expect(channelWrapper.publish).not.toBeCalled();
+  });
+
+  it('should let interceptors change a published message', async () => {
+    // given
+    const client = await createClient();
+    client.use({
+      beforePublish: (outgoing) => {
+        outgoing.headers['x-tenant'] = 'acme';
+        return { ...outgoing, message: { data: outgoing.message, v: 2 } };
+      },
+    });
+
+    // when
+    await client.publishMessage({ id: 1 }, { ...rpcOptions, sendType: 'json' });
+
+    // then
+    const [, , content, { headers }] = channelWrapper.publish.mock.calls[0];
+    expect(JSON.parse(content)).toEqual({ data: { id: 1 }, v: 2 });
+    expect(headers).toEqual(
+      expect.objectContaining({ 'x-tenant': 'acme', 'x-send-type': 'json' })
+    );
+  });
+
+  it('should unwrap rpc replies in reverse order of the interceptors', async () => {
+    // given
+    const client = await createClient();
+    const calls: string[] = [];
+    client
+      .use({
+        beforePublish: () => {
+          calls.push('first before');
+        },
+        afterReply: ({ content }) => {
+          calls.push('first after');
+          return { content: (content as { data: unknown }).data };
+        },
+      })
+      .use({
+        beforePublish: ({ headers }) => {
+          calls.push('second before');
+          headers['x-auth'] = 'token';
+        },
+        afterReply: () => {
+          calls.push('second after');
+        },
+      });
+
+    // when
+    const response = client.publishRPCMessage(
+      { id: 1 },
+      { ...rpcOptions, timeout: 3_000 }
+    );
+    await waitForPublish();
+    reply({ data: 'unwrapped' });
+
+    // then
+    await expect(response).resolves.toEqual({ content: 'unwrapped' });
+    expect(calls).toEqual([
+      'first before',
+      'second before',
+      'second after',
+      'first after',
+    ]);
+    const [, , , { headers, correlationId }] =
+      channelWrapper.publish.mock.calls[0];
+    expect(headers['x-auth']).toBe('token');
+    expect(correlationId).toEqual(expect.any(String));
+  });
+
+  it('should keep the reply routing and r4bbit headers an interceptor replaced', async () => {
+    // given
+    const client = await createClient();
+    client.use({
+      beforePublish: (outgoing) => ({
+        ...outgoing,
+        headers: { 'x-auth': 'token' },
+        publishOptions: { replyTo: 'elsewhere', correlationId: 'forged' },
+      }),
+    });
+
+    // when
+    const response = client.publishRPCMessage(
+      { id: 1 },
+      { ...rpcOptions, timeout: 3_000 }
+    );
+    await waitForPublish();
+    reply('routed back');
+
+    // then
+    await expect(response).resolves.toEqual({ content: 'routed back' });
+    const [, , , { headers, replyTo, correlationId }] =
+      channelWrapper.publish.mock.calls[0];
+    expect(replyTo).not.toBe('elsewhere');
+    expect(correlationId).not.toBe('forged');
+    expect(headers).toEqual(
+      expect.objectContaining({
+        'x-auth': 'token',
+        'x-request-id': expect.any(String),
+        'x-send-type': 'json',
+        'x-deadline': expect.any(Number),
+      })
+    );
+  });
+
+  it('should reject an rpc call whose reply an interceptor rejects', async () => {
+    // given
+    const client = await createClient();
+    client.use({
+      afterReply: async ({ content }) => {
+        if ((content as { version: number }).version < 2) {
+          throw new Error('Unsupported schema version');
+        }
+      },
+    });
+
+    // when
+    const response = client.publishRPCMessage(
+      { id: 1 },
+      { ...rpcOptions, timeout: 3_000 }
+    );
+    await waitForPublish();
+    reply({ version: 1 });
+
+    // then
+    await expect(response).rejects.toThrow('Unsupported schema version');
+  });
+
+  it('should report multiple rpc replies rejected by an interceptor as errors', async () => {
+    // given
+    const client = await createClient();
+    const rejection = new Error('Missing envelope');
+    client.use({
+      afterReply: async ({ content }) => {
+        if (typeof content !== 'object') {
+          throw rejection;
+        }
+        return { content: (content as { data: unknown }).data };
+      },
+    });
+
+    // when
+    const responses = client.publishMultipleRPC(
+      { message: 'testMessage' },
+      { ...rpcOptions, timeout: 1_000, waitedReplies: 2 }
+    );
+    await waitForPublish();
+    reply('raw');
+    reply({ data: 'server-2' });
+
+    // then
+    await expect(responses).resolves.toEqual([
+      { error: rejection },
+      { content: 'server-2' },
+    ]);
+  });
+
+  describe('RPC stream', () => {
+    const frameHeaders = (seq: number, isEnd = false) => ({
+      'x-stream-seq': seq,
+      ...(isEnd ? { 'x-stream-end': true } : {}),
+    });
+
+    it('should yield chunks in the order of their sequence', async () => {
+      // given
+      const client = await createClient();
+      waitForPublish().then(() => {
+        reply('second', frameHeaders(1));
+        reply('first', frameHeaders(0));
+        reply('', frameHeaders(2, true));
+      });
+
+      // when
+      const chunks = [];
+      for await (const chunk of client.publishRPCStream(
+        { page: 1 },
+        { ...rpcOptions, inactivityTimeout: 1_000 }
+      )) {
+        chunks.push(chunk);
+      }
+
+      // then
+      expect(chunks).toEqual([{ content: 'first' }, { content: 'second' }]);
+      expect(channelWrapper.publish).toBeCalledTimes(1);
+    });
+
+    it('should throw DecodeError when a chunk cannot be decoded', async () => {
+      // given
+      const client = await createClient();
+      waitForPublish().then(() => replyMalformed(frameHeaders(0)));
+
+      // when
+      const consume = async () => {
+        for await (const chunk of client.publishRPCStream(
+          { page: 1 },
+          { ...rpcOptions, inactivityTimeout: 1_000 }
+        )) {
+          expect(chunk).toBeUndefined();
+        }
+      };
+
+      // then
+      await expect(consume()).rejects.toBeInstanceOf(DecodeError);
+    });
+
+    it('should cancel the request when the consumer stops early', async () => {
+      // given
+      const client = await createClient();
+      waitForPublish().then(() => {
+        reply('first', frameHeaders(0));
+        reply('second', frameHeaders(1));
+      });
+
+      // when
+      for await (const chunk of client.publishRPCStream(
+        { page: 1 },
+        { ...rpcOptions, inactivityTimeout: 1_000 }
+      )) {
+        if (chunk) break;
+      }
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // then
+      expect(channelWrapper.publish).toHaveBeenLastCalledWith(
+        CANCEL_EXCHANGE_NAME,
+        'test',
+        '',
+        expect.objectContaining({ correlationId: expect.any(String) })
+      );
+    });
+
+    it('should throw when no chunk arrives in time', async () => {
+      // given
+      const client = await createClient();
+
+      // when
+      const stream = client.publishRPCStream(
+        { page: 1 },
+        { ...rpcOptions, inactivityTimeout: 200 }
+      );
+
+      // then
+      await expect(stream.next()).rejects.toBeInstanceOf(RpcTimeoutError);
+    });
+  });
 });
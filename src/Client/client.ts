@@ -1,86 +1,396 @@
 import { ChannelWrapper, ConnectionUrl } from 'amqp-connection-manager';
-import { ConsumeMessage } from 'amqplib';
-import { EventEmitter } from 'events';
+import { Channel, ConsumeMessage, Message, Options } from 'amqplib';
 import { nanoid } from 'nanoid/async';
 import { nanoid as nanoidSync } from 'nanoid';
 import { encodeMessage } from '../Common/encodeMessage/encodeMessage';
 import { prepareResponse } from '../Common/prepareResponse/prepareResponse';
 import { initRabbit } from '../Init/init';
-import { InitRabbitOptions } from '../Init/init.type';
 import {
+  BatchMessage,
+  BatchPublishResult,
+  ClientBatchOptions,
   ClientOptions,
   ClientRPCOptions,
   ClientObservable,
   ClientMultipleRPC,
+  ClientObserveMultipleRPC,
+  ClientContractOptions,
+  ClientInitOptions,
+  ClientRPCStreamOptions,
+  ClientInterceptor,
+  DeliveryOptions,
+  OutgoingMessage,
+  ReplyInfo,
 } from './client.type';
 import {
   fetchReqId,
   prepareHeaders,
 } from '../Common/prepareHeaders/prepareHeaders';
-import { Subscription, Subject, Observer } from 'rxjs';
+import { Observable, Subscription } from 'rxjs';
 import { ConnectionSet } from '../Common/cache/cache';
 import { logMqClose } from '../Common/logger/utils/logMqMessage';
 import { extractAndSetReqId } from '../Common/RequestTracer/extractAndSetReqId';
 import { logger } from '../Common/logger/logger';
-import { HEADER_REQUEST_ID } from '../Common/types';
+import {
+  CANCEL_EXCHANGE_NAME,
+  DIRECT_REPLY_TO_QUEUE,
+  HEADER_CACHE_MAX_AGE,
+  HEADER_DEADLINE,
+  HEADER_IDEMPOTENCY_KEY,
+  HEADER_PUBLISH_ID,
+  HEADER_REQUEST_ID,
+  HEADER_STREAM_END,
+  HEADER_STREAM_SEQ,
+} from '../Common/types';
 import { RequestTracer } from '../Common/RequestTracer/requestTracer';
+import { parseContract } from '../Common/contract/contract';
+import {
+  MissingRespondersError,
+  RemoteRpcError,
+  NotInitializedError,
+  R4bbitError,
+  RpcAbortedError,
+  RpcTimeoutError,
+  UnroutableMessageError,
+} from '../Common/errors/errors';
+import { extractSignature } from '../Common/extractSignature/extractSignature';
+import { createCompletionReducer } from '../Common/completionStrategy/completionStrategy';
+import { CircuitBreakerRegistry } from '../Common/circuitBreaker/circuitBreaker';
+import { RateLimiter } from '../Common/rateLimiter/rateLimiter';
+import {
+  ClientLimits,
+  Release,
+  WaitOptions,
+} from '../Common/rateLimiter/rateLimiter.type';
+import { extractRemoteError } from '../Common/remoteError/remoteError';
+import { retryWithBackoff } from '../Common/retry/retry';
+import {
+  hashPayload,
+  ResponseCache,
+} from '../Common/responseCache/responseCache';
+import {
+  ContractRequest,
+  ParsedContractResponse,
+  RpcContract,
+} from '../Common/contract/contract.type';
 
 const DEFAULT_TIMEOUT = 30_000;
 
+// deliverAt is rounded up to whole seconds so messages share wait queues
+const getDeliveryDelay = ({ delay = 0, deliverAt }: ClientOptions): number =>
+  deliverAt
+    ? Math.ceil((deliverAt.getTime() - Date.now()) / 1000) * 1000
+    : delay;
+
+// options of an rpc call changing how the request is encoded or the response is shaped
+const getResponseVariant = ({
+  sendType,
+  receiveType,
+  responseContains,
+}: ClientRPCOptions): unknown[] => [
+  sendType ?? null,
+  receiveType ?? null,
+  responseContains ?? null,
+];
+
+// Receives the reply (or every reply for multiple rpc and streams) of one request
+type PendingRequest = (msg: ConsumeMessage) => void;
+
+// Called with the successful reply of an rpc call and its prepared response
+type OnReply = (msg: ConsumeMessage, response: unknown) => void;
+
+// One rpc request answering every identical call made while it is in flight
+type SharedRequest = {
+  response: Promise<unknown>;
+  controller: AbortController;
+  callers: number;
+  // the request is published with the timeout of its first caller
+  timeout: number;
+};
+
 export class Client {
   private _channelWrapper?: ChannelWrapper;
-  private eventEmitter = new EventEmitter();
-  private messageMap = new Map<string, Subject<unknown>>();
+  // requests waiting for their replies by correlationId, every entry is removed
+  // on reply, timeout or abort so the table only holds what is in flight
+  private pendingRequests = new Map<string, PendingRequest>();
+  // a single consumer per reply queue dispatching replies to pendingRequests
+  private replyConsumers = new Map<string, Promise<void>>();
   private replyQueueId: string = nanoidSync();
+  // mandatory messages waiting for their confirm by publish id
+  private returnedMessages = new Map<string, (msg: Message) => void>();
+  private returnListener?: Promise<void>;
+  private isConfirmChannel = true;
+  // emits 'stateChange' whenever the circuit of a route opens, half-opens or closes
+  public readonly circuitBreakers = new CircuitBreakerRegistry();
+  private limits?: ClientLimits;
+  private globalLimiter?: RateLimiter;
+  private routingKeyLimiters = new Map<string, RateLimiter>();
+  private responseCache = new ResponseCache();
+  // coalesced rpc calls by route and payload
+  private sharedRequests = new Map<string, SharedRequest>();
+  private interceptors: ClientInterceptor[] = [];
 
   public init = async (
     connectionUrls: ConnectionUrl[] | ConnectionUrl,
-    options?: InitRabbitOptions
+    options?: ClientInitOptions
   ): Promise<void> => {
     this._channelWrapper = await initRabbit(connectionUrls, options);
+    this.isConfirmChannel = options?.createChannelOptions?.confirm !== false;
+    this.limits = options?.limits;
+    this.globalLimiter =
+      this.limits?.global && new RateLimiter('global', this.limits.global);
+    this.responseCache = new ResponseCache(options?.responseCache);
   };
 
   get channelWrapper() {
     if (!this._channelWrapper) {
-      throw new Error('You have to trigger init method first');
+      throw new NotInitializedError('Client');
     }
 
     return this._channelWrapper;
   }
 
+  /**
+   * Adds an interceptor to publishMessage, publishRPCMessage and publishMultipleRPC calls.
+   * beforePublish hooks run in the order they were added, afterReply hooks in reverse order
+   */
+  use(interceptor: ClientInterceptor): this {
+    this.interceptors.push(interceptor);
+    return this;
+  }
+
+  /**
+   * @param reserved - options and headers r4bbit relies on, applied on top of the ones left by the hooks
+   * @returns the message and publish options (with headers) left by the beforePublish hooks
+   */
+  private async interceptOutgoing(
+    message: unknown,
+    options: Options.Publish,
+    target: Pick<
+      OutgoingMessage,
+      'call' | 'exchangeName' | 'routingKey' | 'requestId'
+    >,
+    reserved: Options.Publish = {}
+  ): Promise<[unknown, Options.Publish]> {
+    const withReserved = (publish: Options.Publish): Options.Publish => ({
+      ...publish,
+      ...reserved,
+      headers: { ...publish.headers, ...reserved.headers },
+    });
+    if (this.interceptors.length === 0) {
+      return [message, withReserved(options)];
+    }
+
+    const { headers, ...publishOptions } = withReserved(options);
+    let outgoing: OutgoingMessage = {
+      ...target,
+      message,
+      headers: { ...headers },
+      publishOptions,
+    };
+
+    for (const { beforePublish } of this.interceptors) {
+      const replaced = beforePublish && (await beforePublish(outgoing));
+      // a replacement keeps the route of the call, the next interceptor sees where it goes
+      outgoing = replaced ? { ...replaced, ...target } : outgoing;
+    }
+
+    return [
+      outgoing.message,
+      withReserved({ ...outgoing.publishOptions, headers: outgoing.headers }),
+    ];
+  }
+
+  private async interceptReply(
+    response: Record<string, unknown>,
+    reply: ReplyInfo
+  ): Promise<Record<string, unknown>> {
+    for (const { afterReply } of [...this.interceptors].reverse()) {
+      response =
+        (afterReply && (await afterReply(response, reply))) || response;
+    }
+
+    return response;
+  }
+
+  private onReturnedMessage = (msg: Message) => {
+    const publishId = msg.properties.headers?.[HEADER_PUBLISH_ID];
+    this.returnedMessages.get(publishId)?.(msg);
+  };
+
+  private async ensureReturnListener() {
+    if (!this.returnListener) {
+      // setups are replayed on every (re)created channel
+      this.returnListener = this.channelWrapper.addSetup((channel: Channel) => {
+        channel.on('return', this.onReturnedMessage);
+      });
+    }
+
+    try {
+      await this.returnListener;
+    } catch (err: unknown) {
+      this.returnListener = undefined;
+      throw err;
+    }
+  }
+
+  /**
+   * Publishes the message, with `mandatory` it is tracked until the broker
+   * confirms it. The broker returns an unroutable message before its confirm
+   * so a return seen by then rejects the publish.
+   *
+   * @throws UnroutableMessageError when no queue is bound for the routing key
+   */
+  private async publishWithDelivery(
+    exchangeName: string,
+    routingKey: string,
+    content: unknown,
+    publishOptions: Options.Publish,
+    { confirm, mandatory, priority }: DeliveryOptions,
+    requestId: string
+  ): Promise<void> {
+    if ((confirm || mandatory) && !this.isConfirmChannel) {
+      throw new R4bbitError(
+        'confirm and mandatory options require a confirm channel, remove createChannelOptions.confirm: false'
+      );
+    }
+
+    if (priority !== undefined) {
+      publishOptions = { ...publishOptions, priority };
+    }
+
+    if (!mandatory) {
+      await this.channelWrapper.publish(
+        exchangeName,
+        routingKey,
+        content,
+        publishOptions
+      );
+      return;
+    }
+
+    await this.ensureReturnListener();
+
+    const publishId = nanoidSync();
+    let returnedMessage: Message | undefined;
+    this.returnedMessages.set(publishId, (msg) => (returnedMessage = msg));
+
+    try {
+      await this.channelWrapper.publish(exchangeName, routingKey, content, {
+        ...publishOptions,
+        mandatory: true,
+        headers: { ...publishOptions.headers, [HEADER_PUBLISH_ID]: publishId },
+      });
+    } finally {
+      this.returnedMessages.delete(publishId);
+    }
+
+    if (returnedMessage) {
+      throw new UnroutableMessageError(
+        exchangeName,
+        routingKey,
+        requestId,
+        (returnedMessage.fields as { replyText?: string }).replyText
+      );
+    }
+  }
+
+  /**
+   * Waits for a token and an in-flight slot of the routing key and then of the whole client
+   *
+   * @returns releases the slots, has to be called once the call settles
+   * @throws RateLimitError when the limits are exceeded in 'reject' mode, the queue is full,
+   * or the wait timed out or got aborted
+   */
+  private async acquireLimits(
+    routingKey: string,
+    { signal, timeout }: WaitOptions = {}
+  ): Promise<Release> {
+    const { perRoutingKey } = this.limits ?? {};
+    const limiters: RateLimiter[] = [];
+
+    if (perRoutingKey) {
+      let limiter = this.routingKeyLimiters.get(routingKey);
+      if (!limiter) {
+        limiter = new RateLimiter(routingKey, perRoutingKey);
+        this.routingKeyLimiters.set(routingKey, limiter);
+      }
+      limiters.push(limiter);
+    }
+    if (this.globalLimiter) {
+      limiters.push(this.globalLimiter);
+    }
+
+    const deadline = timeout === undefined ? undefined : Date.now() + timeout;
+    const releases: Release[] = [];
+    try {
+      for (const limiter of limiters) {
+        releases.push(
+          await limiter.acquire({
+            signal,
+            timeout: deadline && Math.max(0, deadline - Date.now()),
+          })
+        );
+      }
+    } catch (err: unknown) {
+      releases.forEach((release) => release());
+      throw err;
+    }
+
+    return () => releases.forEach((release) => release());
+  }
+
   public async publishMessage(
     message: Buffer | string | unknown,
     options: ClientOptions
   ) {
-    const { exchangeName, routingKey } = options;
-    await ConnectionSet.assert(this.channelWrapper, exchangeName, '', '');
+    const { exchangeName, routingKey, signal, timeout } = options;
+    const release = await this.acquireLimits(routingKey, { signal, timeout });
     const createdReqId = fetchReqId();
+    const delay = getDeliveryDelay(options);
 
     try {
+      await ConnectionSet.assert(this.channelWrapper, exchangeName, '', '');
       const requestTracer = RequestTracer.getInstance();
       requestTracer.setRequestId && requestTracer.setRequestId(createdReqId);
 
-      logger.communicationLog({
-        data: message,
-        actor: 'Client',
-        topic: routingKey,
-        isDataHidden: options?.loggerOptions?.isDataHidden,
-        action: 'publish',
-        requestId: createdReqId,
-      });
-      await this.channelWrapper.publish(
-        exchangeName,
-        routingKey,
-        encodeMessage(message, options?.sendType),
+      const [outgoingMessage, publishOptions] = await this.interceptOutgoing(
+        message,
+        options?.publishOptions ?? {},
+        { call: 'publish', exchangeName, routingKey, requestId: createdReqId },
         {
           headers: prepareHeaders({
             isServer: false,
             sendType: options?.sendType,
             requestId: createdReqId,
           }),
-          ...options?.publishOptions,
         }
       );
+
+      logger.communicationLog({
+        data: outgoingMessage,
+        actor: 'Client',
+        topic: routingKey,
+        isDataHidden: options?.loggerOptions?.isDataHidden,
+        action: 'publish',
+        requestId: createdReqId,
+      });
+      // delayed messages go through the default exchange straight to their wait queue
+      await this.publishWithDelivery(
+        delay > 0 ? '' : exchangeName,
+        delay > 0
+          ? await ConnectionSet.assertDelayQueue(
+              this.channelWrapper,
+              exchangeName,
+              routingKey,
+              delay
+            )
+          : routingKey,
+        encodeMessage(outgoingMessage, options?.sendType),
+        publishOptions,
+        options,
+        createdReqId
+      );
     } catch (err: unknown) {
       logger.communicationLog({
         level: 'error',
@@ -97,54 +407,474 @@ export class Client {
         requestId: createdReqId,
       });
       throw err;
+    } finally {
+      release();
     }
   }
 
-  private clientConsumeFunction =
-    (routingKey: string, options: ClientRPCOptions) =>
-    (msg: ConsumeMessage) => {
-      extractAndSetReqId(msg.properties.headers);
+  /**
+   * Publishes all messages to one exchange and waits for every confirm, a failed
+   * message does not stop the others. The batch shares one request id and is logged
+   * as a summary instead of per message.
+   *
+   * @returns outcome of every message in the order of messages
+   */
+  public async publishBatch(
+    messages: BatchMessage[],
+    options: ClientBatchOptions
+  ): Promise<BatchPublishResult[]> {
+    const { exchangeName } = options;
+    const topic = `${exchangeName} (batch)`;
+    await ConnectionSet.assert(this.channelWrapper, exchangeName, '', '');
+    const createdReqId = fetchReqId();
+    const requestTracer = RequestTracer.getInstance();
+    requestTracer.setRequestId && requestTracer.setRequestId(createdReqId);
+
+    logger.communicationLog({
+      data: {
+        count: messages.length,
+        routingKeys: [...new Set(messages.map(({ routingKey }) => routingKey))],
+      },
+      actor: 'Client',
+      topic,
+      action: 'publish',
+      requestId: createdReqId,
+    });
+
+    const results = await Promise.all(
+      messages.map(
+        ({ message, routingKey, headers, sendType, publishOptions }) => {
+          const messageSendType = sendType ?? options.sendType;
+
+          // an encoding error fails this message only
+          return Promise.resolve()
+            .then(() =>
+              this.publishWithDelivery(
+                exchangeName,
+                routingKey,
+                encodeMessage(message, messageSendType),
+                {
+                  ...options.publishOptions,
+                  ...publishOptions,
+                  headers: {
+                    ...prepareHeaders({
+                      isServer: false,
+                      sendType: messageSendType,
+                      requestId: createdReqId,
+                    }),
+                    ...headers,
+                  },
+                },
+                options,
+                createdReqId
+              )
+            )
+            .then(
+              (): BatchPublishResult => ({ routingKey, isPublished: true }),
+              (error: unknown): BatchPublishResult => ({
+                routingKey,
+                isPublished: false,
+                error,
+              })
+            );
+        }
+      )
+    );
+
+    const failed = results.filter(({ isPublished }) => !isPublished);
+    if (failed.length > 0) {
+      const firstError = failed[0].error as Error;
       logger.communicationLog({
-        data: prepareResponse(msg, options?.responseContains),
-        actor: 'Rpc Client',
-        action: 'receive',
-        topic: routingKey,
-        requestId: msg.properties.headers[HEADER_REQUEST_ID],
-        isDataHidden: options?.loggerOptions?.isConsumeDataHidden,
+        level: 'error',
+        error: {
+          description: `💥 ${failed.length} of ${messages.length} batch messages were not published`,
+          message: firstError?.message ?? String(firstError),
+          stack: firstError?.stack || '',
+        },
+        data: { failedRoutingKeys: failed.map(({ routingKey }) => routingKey) },
+        actor: 'Client',
+        topic,
+        action: 'publish',
+        requestId: createdReqId,
       });
-      this.eventEmitter.emit(
-        msg?.properties.correlationId,
-        prepareResponse(msg, options?.responseContains)
+    }
+
+    return results;
+  }
+
+  private dispatchReply = (msg: ConsumeMessage) => {
+    extractAndSetReqId(msg.properties.headers);
+    const { correlationId } = msg.properties;
+    const pendingRequest = this.pendingRequests.get(correlationId);
+
+    if (!pendingRequest) {
+      logger.debug(
+        `🐇 Dropping reply ${correlationId}, nobody waits for it anymore (timeout, abort or already answered)`
       );
-    };
+      return;
+    }
+
+    pendingRequest(msg);
+  };
+
+  /**
+   * Asserts the reply queue (bound to the given exchange) and starts
+   * consuming it, only the first call for a queue creates the consumer.
+   * In 'direct-reply-to' mode nothing is asserted and the amq.rabbitmq.reply-to
+   * pseudo-queue is consumed instead
+   *
+   * @returns name of the reply queue
+   */
+  private async ensureReplyConsumer(
+    options: ClientRPCOptions | ClientObserveMultipleRPC
+  ): Promise<string> {
+    const { exchangeName, replyQueueName, replyMode = 'queue' } = options;
+    let prefixedReplyQueueName: string;
+
+    if (replyMode === 'direct-reply-to') {
+      // no reply queue to bind, the request exchange has to exist before publishing though
+      await ConnectionSet.assert(this.channelWrapper, exchangeName);
+      prefixedReplyQueueName = DIRECT_REPLY_TO_QUEUE;
+    } else {
+      if (!replyQueueName) {
+        throw new R4bbitError(
+          "replyQueueName is required unless replyMode is 'direct-reply-to'"
+        );
+      }
+
+      prefixedReplyQueueName = `reply.${replyQueueName}.${this.replyQueueId}`;
+      await ConnectionSet.assert(
+        this.channelWrapper,
+        exchangeName,
+        prefixedReplyQueueName,
+        prefixedReplyQueueName,
+        true
+      );
+    }
+
+    let replyConsumer = this.replyConsumers.get(prefixedReplyQueueName);
+    if (!replyConsumer) {
+      // direct reply-to requires noAck as well
+      replyConsumer = this.channelWrapper
+        .consume(prefixedReplyQueueName, this.dispatchReply, {
+          ...options.consumeOptions,
+          noAck: true,
+        })
+        .then(() => undefined);
+      this.replyConsumers.set(prefixedReplyQueueName, replyConsumer);
+    }
+
+    try {
+      await replyConsumer;
+    } catch (err: unknown) {
+      this.replyConsumers.delete(prefixedReplyQueueName);
+      throw err;
+    }
+
+    return prefixedReplyQueueName;
+  }
+
+  private logReply(
+    msg: ConsumeMessage,
+    routingKey: string,
+    options: ClientRPCOptions | ClientObserveMultipleRPC
+  ) {
+    let data: unknown;
+    try {
+      data = prepareResponse(msg, options?.responseContains);
+    } catch {
+      // the caller gets the DecodeError, the raw content is logged instead
+      data = msg.content.toString();
+    }
+
+    logger.communicationLog({
+      data,
+      actor: 'Rpc Client',
+      action: 'receive',
+      topic: routingKey,
+      requestId: msg.properties.headers[HEADER_REQUEST_ID],
+      isDataHidden: options?.loggerOptions?.isConsumeDataHidden,
+    });
+  }
 
   public async publishRPCMessage<ResponseType>(
     message: Buffer | string | unknown,
     options: ClientRPCOptions
   ): Promise<ResponseType> {
-    const { exchangeName, replyQueueName, routingKey } = options;
-    const prefixedReplyQueueName = `reply.${replyQueueName}.${this.replyQueueId}`;
+    return options.coalesce
+      ? this.joinSharedRequest<ResponseType>(message, options)
+      : this.sendRPCMessage<ResponseType>(message, options);
+  }
+
+  /**
+   * Identical calls (same route and payload) made while one is in flight share its reply.
+   * A call joins the request only when its timeout is not longer than the one the request
+   * was published with, otherwise it publishes a new one with its own options. Every caller
+   * keeps its own timeout and signal and a request is cancelled once its last caller aborted.
+   */
+  private joinSharedRequest<ResponseType>(
+    message: Buffer | string | unknown,
+    options: ClientRPCOptions
+  ): Promise<ResponseType> {
+    const {
+      exchangeName,
+      routingKey,
+      signal,
+      retry,
+      timeout: timeoutValue = DEFAULT_TIMEOUT,
+    } = options;
+    if (retry) {
+      // callers time out on their own, they would give up before the next attempt
+      return Promise.reject(
+        new R4bbitError('The coalesce option can not be combined with retry')
+      );
+    }
+
+    const key = `${exchangeName}.${routingKey}.${hashPayload([
+      message,
+      ...getResponseVariant(options),
+    ])}`;
+
+    if (signal?.aborted) {
+      return Promise.reject(
+        new RpcAbortedError(exchangeName, routingKey, undefined, signal.reason)
+      );
+    }
+
+    let shared = this.sharedRequests.get(key);
+    if (!shared || shared.timeout < timeoutValue) {
+      const controller = new AbortController();
+      const response = this.sendRPCMessage(message, {
+        ...options,
+        signal: controller.signal,
+      });
+      const request: SharedRequest = {
+        response,
+        controller,
+        callers: 0,
+        timeout: timeoutValue,
+      };
+      const forget = () => {
+        if (this.sharedRequests.get(key) === request) {
+          this.sharedRequests.delete(key);
+        }
+      };
+      response.then(forget, forget);
+
+      this.sharedRequests.set(key, request);
+      shared = request;
+    } else {
+      logger.debug(`🔗 Rpc message to ${routingKey} joined an identical call`);
+    }
+
+    const request = shared;
+    request.callers++;
+
+    return new Promise((resolve, reject) => {
+      let isSettled = false;
+      const settle = () => {
+        isSettled = true;
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+        request.callers--;
+      };
+      const leave = (reason: unknown) => {
+        if (isSettled) return;
+        settle();
+        if (request.callers === 0) {
+          if (this.sharedRequests.get(key) === request) {
+            this.sharedRequests.delete(key);
+          }
+          // a timed out request ends on its own timeout, so it still counts for the circuit breaker
+          if (reason instanceof RpcAbortedError) {
+            request.controller.abort(reason);
+          }
+        }
+        reject(reason);
+      };
+
+      const onAbort = () =>
+        leave(
+          new RpcAbortedError(
+            exchangeName,
+            routingKey,
+            undefined,
+            signal?.reason
+          )
+        );
+      const timeout = setTimeout(
+        () =>
+          leave(new RpcTimeoutError(exchangeName, routingKey, timeoutValue)),
+        timeoutValue
+      );
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      request.response.then(
+        (response) => {
+          if (isSettled) return;
+          settle();
+          resolve(response as ResponseType);
+        },
+        (err: unknown) => {
+          if (isSettled) return;
+          settle();
+          reject(err);
+        }
+      );
+    });
+  }
+
+  private async sendRPCMessage<ResponseType>(
+    message: Buffer | string | unknown,
+    options: ClientRPCOptions
+  ): Promise<ResponseType> {
+    const { exchangeName, routingKey, circuitBreaker, cache } = options;
     const createdReqId = fetchReqId();
     const requestTracer = RequestTracer.getInstance();
     requestTracer.setRequestId && requestTracer.setRequestId(createdReqId);
 
-    await ConnectionSet.assert(
-      this.channelWrapper,
-      exchangeName,
-      prefixedReplyQueueName,
-      prefixedReplyQueueName,
-      true
-    );
+    const cacheOptions = cache === true ? {} : cache || undefined;
+    const cacheKey =
+      cacheOptions &&
+      this.responseCache.key(
+        message,
+        exchangeName,
+        routingKey,
+        cacheOptions,
+        getResponseVariant(options)
+      );
+    if (cacheKey) {
+      const cached = await this.responseCache.get(cacheKey);
+      if (cached) {
+        logger.debug(
+          `📦 Rpc message to ${routingKey} answered from the response cache`
+        );
+        return cached.value as ResponseType;
+      }
+    }
+    const onReply: OnReply | undefined =
+      cacheKey && cacheOptions
+        ? (msg, response) => {
+            const maxAge = msg.properties.headers?.[HEADER_CACHE_MAX_AGE];
+            this.responseCache
+              .set(
+                cacheKey,
+                response,
+                cacheOptions,
+                maxAge === undefined ? undefined : Number(maxAge)
+              )
+              .catch((err: unknown) =>
+                logger.error(
+                  `Could not cache the reply of ${routingKey}`,
+                  (err as Error)?.message ?? String(err)
+                )
+              );
+          }
+        : undefined;
 
+    const [release, limitedOptions] = await this.acquireRPCLimits(options);
     try {
-      await this.channelWrapper.consume(
-        prefixedReplyQueueName,
-        this.clientConsumeFunction(routingKey, options),
-        {
-          ...options?.consumeOptions,
-          noAck: true,
-        }
+      if (!circuitBreaker) {
+        return await this.publishRPCWithRetry(
+          message,
+          limitedOptions,
+          createdReqId,
+          onReply
+        );
+      }
+
+      return await this.circuitBreakers
+        .get(
+          exchangeName,
+          routingKey,
+          circuitBreaker === true ? {} : circuitBreaker
+        )
+        .execute(() =>
+          this.publishRPCWithRetry<ResponseType>(
+            message,
+            limitedOptions,
+            createdReqId,
+            onReply
+          )
+        );
+    } finally {
+      release();
+    }
+  }
+
+  // time spent waiting for the limits is taken from the timeout of the call
+  private async acquireRPCLimits<
+    Options extends Pick<ClientRPCOptions, 'routingKey' | 'signal' | 'timeout'>
+  >(options: Options): Promise<[Release, Options]> {
+    const { routingKey, signal, timeout = DEFAULT_TIMEOUT } = options;
+    const queuedAt = Date.now();
+    const release = await this.acquireLimits(routingKey, { signal, timeout });
+    const queuedFor = Date.now() - queuedAt;
+
+    return [
+      release,
+      this.limits && queuedFor > 0
+        ? { ...options, timeout: timeout - queuedFor }
+        : options,
+    ];
+  }
+
+  private async publishRPCWithRetry<ResponseType>(
+    message: Buffer | string | unknown,
+    options: ClientRPCOptions,
+    createdReqId: string,
+    onReply?: OnReply
+  ): Promise<ResponseType> {
+    const { retry, routingKey } = options;
+
+    if (!retry) {
+      return this.publishRPCAttempt<ResponseType>(
+        message,
+        options,
+        createdReqId,
+        undefined,
+        onReply
       );
+    }
+
+    // every attempt carries the same request id and idempotency key so servers can dedupe
+    const idempotencyHeaders = { [HEADER_IDEMPOTENCY_KEY]: nanoidSync() };
+
+    return retryWithBackoff(
+      () =>
+        this.publishRPCAttempt<ResponseType>(
+          message,
+          options,
+          createdReqId,
+          idempotencyHeaders,
+          onReply
+        ),
+      retry,
+      options.signal,
+      ({ attempt, error }, delay) => {
+        logger.debug(
+          `🔁 Rpc message to ${routingKey} failed (attempt ${attempt}/${
+            retry.maxAttempts
+          }), retrying in ${delay}ms: ${
+            error instanceof Error ? error.message : error
+          }`
+        );
+      }
+    );
+  }
+
+  private async publishRPCAttempt<ResponseType>(
+    message: Buffer | string | unknown,
+    options: ClientRPCOptions,
+    createdReqId: string,
+    additionalHeaders?: Record<string, unknown>,
+    onReply?: OnReply
+  ): Promise<ResponseType> {
+    const { exchangeName, routingKey } = options;
+    let prefixedReplyQueueName: string;
+
+    try {
+      prefixedReplyQueueName = await this.ensureReplyConsumer(options);
     } catch (err: unknown) {
       logger.communicationLog({
         level: 'error',
@@ -166,18 +896,74 @@ export class Client {
     // eslint-disable-next-line no-async-promise-executor
     return new Promise(async (resolve, reject) => {
       const corelationId = await nanoid();
+      const { signal } = options;
 
-      const listener = (msg: ConsumeMessage) => {
+      if (signal?.aborted) {
+        reject(
+          new RpcAbortedError(
+            exchangeName,
+            routingKey,
+            corelationId,
+            signal.reason
+          )
+        );
+        return;
+      }
+
+      const onAbort = () => {
         clearTimeout(timeout);
-        resolve(msg as ResponseType);
+        this.pendingRequests.delete(corelationId);
+        reject(
+          new RpcAbortedError(
+            exchangeName,
+            routingKey,
+            corelationId,
+            signal?.reason
+          )
+        );
+        this.publishCancellation(routingKey, corelationId, createdReqId);
       };
-      const emitter = this.eventEmitter.once(String(corelationId), listener);
+
+      this.pendingRequests.set(corelationId, (msg: ConsumeMessage) => {
+        // a reply which cannot be decoded rejects the call with DecodeError,
+        // throwing would reach the reply consumer instead of the caller
+        let failure: unknown;
+        let response: Record<string, unknown> = {};
+        try {
+          failure = extractRemoteError(msg);
+          if (!failure) {
+            response = prepareResponse(msg, options?.responseContains);
+          }
+        } catch (err: unknown) {
+          failure = err;
+        }
+
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+        this.pendingRequests.delete(corelationId);
+
+        this.logReply(msg, routingKey, options);
+        if (failure) {
+          reject(failure);
+          return;
+        }
+
+        this.interceptReply(response, {
+          call: 'rpc',
+          exchangeName,
+          routingKey,
+          consumeMessage: msg,
+        }).then((response) => {
+          onReply?.(msg, response);
+          resolve(response as ResponseType);
+        }, reject);
+      });
 
       const timeoutValue = options?.timeout ?? DEFAULT_TIMEOUT;
       const timeout = setTimeout(() => {
-        emitter.removeListener(String(corelationId), listener);
+        this.pendingRequests.delete(corelationId);
+        signal?.removeEventListener('abort', onAbort);
 
-        const timeoutMessage = `Timeout of ${timeoutValue}ms occured for the given rpc message`;
         logger.communicationLog({
           data: message,
           actor: 'Rpc Client',
@@ -187,185 +973,596 @@ export class Client {
           requestId: createdReqId,
         });
 
-        reject(timeoutMessage);
+        reject(
+          new RpcTimeoutError(
+            exchangeName,
+            routingKey,
+            timeoutValue,
+            corelationId,
+            createdReqId
+          )
+        );
       }, timeoutValue);
+      signal?.addEventListener('abort', onAbort, { once: true });
 
-      logger.communicationLog({
-        data: message,
-        actor: 'Rpc Client',
-        topic: routingKey,
-        isDataHidden: !!options?.loggerOptions?.isSendDataHidden,
-        action: 'publish',
-        requestId: createdReqId,
-      });
-      await this.channelWrapper.publish(
+      try {
+        const [outgoingMessage, publishOptions] = await this.interceptOutgoing(
+          message,
+          {
+            // the request dies in the queue once nobody waits for its reply
+            expiration: timeoutValue,
+            ...options?.publishOptions,
+          },
+          { call: 'rpc', exchangeName, routingKey, requestId: createdReqId },
+          {
+            headers: {
+              ...prepareHeaders({
+                isServer: false,
+                sendType: options?.sendType,
+                receiveType: options?.receiveType,
+                requestId: createdReqId,
+              }),
+              ...additionalHeaders,
+              [HEADER_DEADLINE]: Date.now() + timeoutValue,
+            },
+            replyTo: prefixedReplyQueueName,
+            correlationId: corelationId,
+          }
+        );
+
+        logger.communicationLog({
+          data: outgoingMessage,
+          actor: 'Rpc Client',
+          topic: routingKey,
+          isDataHidden: !!options?.loggerOptions?.isSendDataHidden,
+          action: 'publish',
+          requestId: createdReqId,
+        });
+        await this.publishWithDelivery(
+          exchangeName,
+          routingKey,
+          encodeMessage(outgoingMessage, options?.sendType),
+          publishOptions,
+          options,
+          createdReqId
+        );
+      } catch (err: unknown) {
+        // e.g. unroutable, no need to wait for the timeout
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+        this.pendingRequests.delete(corelationId);
+        reject(err);
+      }
+    }) as Promise<ResponseType>;
+  }
+
+  /**
+   * RPC call answered with many replies (see registerRPCStreamRoute in server.ts).
+   * Chunks are yielded in the order of their sequence numbers until the server ends the stream.
+   * Breaking out of the loop, an abort or the inactivity timeout cancel the request on the server side.
+   */
+  public async *publishRPCStream<ChunkType>(
+    message: Buffer | string | unknown,
+    options: ClientRPCStreamOptions
+  ): AsyncGenerator<ChunkType, void, undefined> {
+    const { exchangeName, routingKey, signal } = options;
+    const createdReqId = fetchReqId();
+    const requestTracer = RequestTracer.getInstance();
+    requestTracer.setRequestId && requestTracer.setRequestId(createdReqId);
+
+    const prefixedReplyQueueName = await this.ensureReplyConsumer(options);
+
+    const corelationId = await nanoid();
+    const frames = new Map<number, { payload: unknown; isEnd: boolean }>();
+    let nextSequence = 0;
+    let failure: unknown;
+    let isServerDone = false;
+    let wakeUp: (() => void) | undefined;
+
+    const inactivityTimeoutValue =
+      options?.inactivityTimeout ?? DEFAULT_TIMEOUT;
+    const onInactivity = () => {
+      failure = new RpcTimeoutError(
         exchangeName,
         routingKey,
-        encodeMessage(message, options?.sendType),
-        {
-          headers: prepareHeaders({
-            isServer: false,
-            sendType: options?.sendType,
-            receiveType: options?.receiveType,
-            requestId: createdReqId,
-          }),
-          ...options?.publishOptions,
-          replyTo: prefixedReplyQueueName,
-          correlationId: corelationId,
-        }
+        inactivityTimeoutValue,
+        corelationId,
+        createdReqId
       );
-    }) as Promise<ResponseType>;
-  }
+      wakeUp?.();
+    };
+    let inactivityTimeout = setTimeout(onInactivity, inactivityTimeoutValue);
 
-  private getCorrlationIdSubject<T>(correlationId: string): Subject<T> {
-    const subject$ = this.messageMap.get(correlationId) as Subject<T>;
-    if (!subject$) {
-      throw new Error(
-        `No such correlationId in the messageMap ${correlationId}`
+    const onFrame = (msg: ConsumeMessage) => {
+      clearTimeout(inactivityTimeout);
+      inactivityTimeout = setTimeout(onInactivity, inactivityTimeoutValue);
+
+      this.logReply(msg, routingKey, options);
+      let payload: unknown;
+      try {
+        payload =
+          extractRemoteError(msg) ??
+          prepareResponse(msg, options?.responseContains);
+      } catch (err: unknown) {
+        // a frame which cannot be decoded ends the stream with DecodeError
+        failure = err;
+        wakeUp?.();
+        return;
+      }
+
+      const sequence = msg.properties.headers[HEADER_STREAM_SEQ];
+      if (sequence === undefined) {
+        // the handler failed before it could use the stream writer
+        isServerDone = true;
+        failure =
+          payload instanceof RemoteRpcError
+            ? payload
+            : new R4bbitError(
+                'Received a reply without a stream sequence, the route should be registered with registerRPCStreamRoute'
+              );
+      } else {
+        frames.set(Number(sequence), {
+          payload,
+          isEnd: !!msg.properties.headers[HEADER_STREAM_END],
+        });
+      }
+      wakeUp?.();
+    };
+
+    const onAbort = () => {
+      failure = new RpcAbortedError(
+        exchangeName,
+        routingKey,
+        corelationId,
+        signal?.reason
       );
+      wakeUp?.();
+    };
+
+    this.pendingRequests.set(corelationId, onFrame);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        logger.communicationLog({
+          data: message,
+          actor: 'Rpc Client',
+          topic: routingKey,
+          isDataHidden: !!options?.loggerOptions?.isSendDataHidden,
+          action: 'publish',
+          requestId: createdReqId,
+        });
+        await this.publishWithDelivery(
+          exchangeName,
+          routingKey,
+          encodeMessage(message, options?.sendType),
+          {
+            headers: prepareHeaders({
+              isServer: false,
+              sendType: options?.sendType,
+              receiveType: options?.receiveType,
+              requestId: createdReqId,
+            }),
+            ...options?.publishOptions,
+            replyTo: prefixedReplyQueueName,
+            correlationId: corelationId,
+          },
+          options,
+          createdReqId
+        );
+      }
+
+      for (;;) {
+        if (failure) {
+          throw failure;
+        }
+
+        const frame = frames.get(nextSequence);
+        if (!frame) {
+          await new Promise<void>((resolve) => (wakeUp = resolve));
+          continue;
+        }
+
+        frames.delete(nextSequence);
+        nextSequence++;
+
+        if (frame.isEnd) {
+          isServerDone = true;
+          if (frame.payload instanceof RemoteRpcError) {
+            throw frame.payload;
+          }
+          return;
+        }
+
+        yield frame.payload as ChunkType;
+      }
+    } finally {
+      clearTimeout(inactivityTimeout);
+      this.pendingRequests.delete(corelationId);
+      signal?.removeEventListener('abort', onAbort);
+
+      if (!isServerDone) {
+        this.publishCancellation(routingKey, corelationId, createdReqId);
+      }
     }
-    return subject$;
   }
 
-  private removeSubject(correlationId: string, subscription: Subscription) {
-    this.messageMap.get(correlationId)?.unsubscribe();
-    subscription.unsubscribe();
-    this.messageMap.delete(correlationId);
+  /**
+   * Typed RPC call described by a contract. The payload is validated against
+   * the contract's requestSchema before publishing and the reply content
+   * against its responseSchema before resolving.
+   *
+   * @throws ContractValidationError when either side does not match the contract
+   */
+  public async call<C extends RpcContract>(
+    contract: C,
+    payload: ContractRequest<C>,
+    options: ClientContractOptions
+  ): Promise<ParsedContractResponse<C>> {
+    const { exchangeName, routingKey } = contract;
+    const request = parseContract(contract, 'request', payload);
+
+    const response = await this.publishRPCMessage<{ content: unknown }>(
+      request,
+      {
+        ...options,
+        exchangeName,
+        routingKey,
+        sendType: 'json',
+        receiveType: 'json',
+        responseContains: { content: true },
+      }
+    );
+
+    return parseContract(contract, 'response', response.content);
   }
 
-  public async publishMultipleRPC(
+  public async publishMultipleRPC<ResultType = unknown>(
     message: Buffer | string | unknown,
-    options: ClientMultipleRPC
+    options: ClientMultipleRPC<ResultType>
   ) {
-    const { exchangeName, replyQueueName, routingKey } = options;
-    const prefixedReplyQueueName = `reply.${replyQueueName}.${this.replyQueueId}`;
-
+    const { routingKey, strategy } = options;
     const createdReqId = fetchReqId();
-    const requestTracer = RequestTracer.getInstance();
-    requestTracer.setRequestId && requestTracer.setRequestId(createdReqId);
+    const [release, limitedOptions] = await this.acquireRPCLimits(options);
 
-    const corelationId = await nanoid();
-    this.messageMap.set(corelationId, new Subject());
+    try {
+      return await new Promise((resolve, reject) => {
+        const allReplies: ClientObservable[] = [];
+        const reducer = strategy && createCompletionReducer(strategy, options);
+        let acc = reducer?.initial;
 
-    // eslint-disable-next-line no-async-promise-executor
-    return new Promise(async (resolve, reject) => {
-      const allReplies: ClientObservable[] = [];
+        const finish = (done: boolean) => {
+          try {
+            resolve(
+              reducer
+                ? reducer.result(acc, done)
+                : allReplies.map(
+                    (reply: ClientObservable) => reply.preparedResponse
+                  )
+            );
+          } catch (err: unknown) {
+            reject(err);
+          }
+        };
+
+        const subscription = this.multipleRPCReplies(
+          message,
+          limitedOptions,
+          createdReqId
+        ).subscribe({
+          next: (data) => {
+            allReplies.push(data);
+            options.handler && options.handler(data);
 
-      const clientConsumeFunction = (msg: ConsumeMessage) => {
-        const reqId = extractAndSetReqId(msg.properties.headers);
+            if (!reducer) {
+              return;
+            }
+            const step = reducer.reduce(acc, data.preparedResponse);
+            acc = step.acc;
+            if (step.done) {
+              finish(true);
+              // the remaining responders are not waited for
+              subscription.unsubscribe();
+            }
+          },
+          error: reject,
+          complete: () => finish(false),
+        });
+      }).catch((err) => {
         logger.communicationLog({
-          data: prepareResponse(msg, options?.responseContains),
+          level: 'error',
+          error: {
+            description: '💥 An error occurred while receiving message',
+            message: (err as Error).message,
+            stack: (err as Error).stack || '',
+          },
+          action: 'receive',
+          data: message,
           actor: 'Rpc Client',
           topic: routingKey,
-          isDataHidden: options?.loggerOptions?.isConsumeDataHidden,
-          action: 'receive',
-          requestId: reqId,
+          isDataHidden: options.loggerOptions?.isConsumeDataHidden,
+          requestId: createdReqId,
         });
+        throw err;
+      });
+    } finally {
+      release();
+    }
+  }
 
-        this.getCorrlationIdSubject(msg?.properties.correlationId).next({
-          preparedResponse: prepareResponse(msg, options?.responseContains),
-          reqId: reqId,
-        });
+  /**
+   * Multiple RPC call emitting every reply as soon as it arrives. Every subscription
+   * publishes the request and completes on waitedReplies, expectedResponders or timeout.
+   * Unsubscribing earlier removes the pending request and cancels it on the servers.
+   */
+  public observeMultipleRPC(
+    message: Buffer | string | unknown,
+    options: ClientObserveMultipleRPC
+  ): Observable<ClientObservable> {
+    const createdReqId = fetchReqId();
+
+    // the limits are held from the subscription until its teardown
+    return new Observable<ClientObservable>((subscriber) => {
+      let release: Release | undefined;
+      let replies: Subscription | undefined;
+      let isClosed = false;
+
+      this.acquireRPCLimits(options).then(
+        ([acquired, limitedOptions]) => {
+          if (isClosed) {
+            acquired();
+            return;
+          }
+          release = acquired;
+          replies = this.multipleRPCReplies(
+            message,
+            limitedOptions,
+            createdReqId
+          ).subscribe({
+            next: (data) => subscriber.next(data),
+            error: (err) => subscriber.error(err),
+            complete: () => subscriber.complete(),
+          });
+        },
+        (err) => subscriber.error(err)
+      );
+
+      return () => {
+        isClosed = true;
+        replies?.unsubscribe();
+        release?.();
+      };
+    });
+  }
+
+  private multipleRPCReplies(
+    message: Buffer | string | unknown,
+    options: ClientObserveMultipleRPC,
+    createdReqId: string
+  ): Observable<ClientObservable> {
+    const { exchangeName, routingKey, signal, expectedResponders } = options;
+
+    return new Observable<ClientObservable>((subscriber) => {
+      const requestTracer = RequestTracer.getInstance();
+      requestTracer.setRequestId && requestTracer.setRequestId(createdReqId);
+
+      const corelationId = nanoidSync();
+      const allReplies: ClientObservable[] = [];
+      const missingResponders = new Set(expectedResponders);
+      // servers are notified only when the caller gives up before the end
+      let isSettled = false;
+
+      const settle = (error?: unknown) => {
+        isSettled = true;
+        error ? subscriber.error(error) : subscriber.complete();
       };
 
-      // eslint-disable-next-line prefer-const
-      let subscription: Subscription;
+      const onAbort = () => {
+        subscriber.error(
+          new RpcAbortedError(
+            exchangeName,
+            routingKey,
+            corelationId,
+            signal?.reason
+          )
+        );
+      };
 
-      const observer: Observer<ClientObservable> = {
-        next: (data) => {
-          allReplies.push(data);
-          options.handler && options.handler(data);
+      if (signal?.aborted) {
+        isSettled = true;
+        onAbort();
+        return;
+      }
 
-          if (allReplies.length === options?.waitedReplies) {
-            this.getCorrlationIdSubject(corelationId).complete();
+      // failed responders are reported next to the successful ones
+      const failedReply = (msg: ConsumeMessage, error: unknown) => ({
+        ...prepareResponse(msg, {
+          ...options?.responseContains,
+          content: false,
+        }),
+        error,
+      });
+      const toReply = async (msg: ConsumeMessage) => {
+        try {
+          const remoteError = extractRemoteError(msg);
+          if (remoteError) {
+            return failedReply(msg, remoteError);
           }
-        },
-        error: (error: Error) => {
-          reject(error);
-          this.removeSubject(corelationId, subscription);
-        },
-        complete: () => {
-          const preparedResponses = allReplies.map(
-            (reply: ClientObservable) => reply.preparedResponse
+
+          return await this.interceptReply(
+            prepareResponse(msg, options?.responseContains),
+            {
+              call: 'multiple-rpc',
+              exchangeName,
+              routingKey,
+              consumeMessage: msg,
+            }
           );
-          clearTimeout(timeout);
-          resolve(preparedResponses);
-          this.removeSubject(corelationId, subscription);
-        },
+        } catch (err: unknown) {
+          return failedReply(msg, err);
+        }
       };
+      // replies are intercepted one after another so they are emitted in the order they came
+      let replies = Promise.resolve();
+
+      const onReply = async (msg: ConsumeMessage) => {
+        const reqId = msg.properties.headers[HEADER_REQUEST_ID];
+        const signature = extractSignature(msg);
+        this.logReply(msg, routingKey, options);
+
+        const preparedResponse = await toReply(msg);
+        if (subscriber.closed) {
+          return;
+        }
+
+        if (expectedResponders && !expectedResponders.includes(signature)) {
+          options.onUnexpectedReply
+            ? options.onUnexpectedReply(preparedResponse)
+            : logger.debug(
+                `🐇 Ignoring reply of unexpected responder ${signature} for ${routingKey}`
+              );
+          return;
+        }
+
+        missingResponders.delete(signature);
+        const reply = { preparedResponse, reqId: reqId };
+        allReplies.push(reply);
+        subscriber.next(reply);
 
+        if (
+          allReplies.length === options?.waitedReplies ||
+          (expectedResponders && missingResponders.size === 0)
+        ) {
+          settle();
+        }
+      };
+      this.pendingRequests.set(corelationId, (msg: ConsumeMessage) => {
+        replies = replies
+          .then(() => onReply(msg))
+          .catch((err: unknown) => subscriber.error(err));
+      });
+
+      const timeoutValue = options?.timeout || DEFAULT_TIMEOUT;
       const timeout = setTimeout(() => {
-        this.getCorrlationIdSubject(corelationId).complete();
-      }, options?.timeout || DEFAULT_TIMEOUT);
+        settle(
+          missingResponders.size === 0
+            ? undefined
+            : new MissingRespondersError(
+                exchangeName,
+                routingKey,
+                [...missingResponders],
+                allReplies.map((reply) => reply.preparedResponse)
+              )
+        );
+      }, timeoutValue);
+      signal?.addEventListener('abort', onAbort, { once: true });
 
-      subscription =
-        this.getCorrlationIdSubject<ClientObservable>(corelationId).subscribe(
-          observer
+      (async () => {
+        const prefixedReplyQueueName = await this.ensureReplyConsumer(options);
+        const [outgoingMessage, publishOptions] = await this.interceptOutgoing(
+          message,
+          { expiration: timeoutValue, ...options?.publishOptions },
+          {
+            call: 'multiple-rpc',
+            exchangeName,
+            routingKey,
+            requestId: createdReqId,
+          },
+          {
+            headers: {
+              ...prepareHeaders({
+                isServer: false,
+                sendType: options?.sendType,
+                receiveType: options?.receiveType,
+                requestId: createdReqId,
+              }),
+              [HEADER_DEADLINE]: Date.now() + timeoutValue,
+            },
+            replyTo: prefixedReplyQueueName,
+            correlationId: corelationId,
+          }
         );
 
-      await ConnectionSet.assert(
-        this.channelWrapper,
-        exchangeName,
-        prefixedReplyQueueName,
-        prefixedReplyQueueName,
-        true
-      );
+        logger.communicationLog({
+          data: outgoingMessage,
+          actor: 'Rpc Client',
+          topic: routingKey,
+          isDataHidden: options?.loggerOptions?.isSendDataHidden,
+          action: 'publish',
+          requestId: createdReqId,
+        });
 
-      await this.channelWrapper.consume(
-        prefixedReplyQueueName,
-        clientConsumeFunction,
-        {
-          ...options?.consumeOptions,
-          noAck: true,
+        await this.publishWithDelivery(
+          exchangeName,
+          routingKey,
+          encodeMessage(outgoingMessage, options?.sendType),
+          publishOptions,
+          options,
+          createdReqId
+        );
+      })().catch(settle);
+
+      return () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+        this.pendingRequests.delete(corelationId);
+
+        if (!isSettled) {
+          this.publishCancellation(routingKey, corelationId, createdReqId);
         }
-      );
+      };
+    });
+  }
 
+  /**
+   * Lets the servers know that nobody waits for the reply anymore,
+   * the handler which processes the given correlationId gets its signal aborted
+   */
+  private async publishCancellation(
+    routingKey: string,
+    correlationId: string,
+    requestId: string
+  ) {
+    try {
+      await ConnectionSet.assert(this.channelWrapper, CANCEL_EXCHANGE_NAME);
       logger.communicationLog({
-        data: message,
+        data: { correlationId },
         actor: 'Rpc Client',
         topic: routingKey,
-        isDataHidden: options?.loggerOptions?.isSendDataHidden,
         action: 'publish',
-        requestId: createdReqId,
+        requestId,
       });
-
-      await this.channelWrapper.publish(
-        exchangeName,
-        routingKey,
-        encodeMessage(message, options?.sendType),
-        {
-          headers: prepareHeaders({
-            isServer: false,
-            sendType: options?.sendType,
-            receiveType: options?.receiveType,
-            requestId: createdReqId,
-          }),
-          ...options?.publishOptions,
-          replyTo: prefixedReplyQueueName,
-          correlationId: corelationId,
-        }
-      );
-    }).catch((err) => {
+      await this.channelWrapper.publish(CANCEL_EXCHANGE_NAME, routingKey, '', {
+        correlationId,
+        headers: prepareHeaders({
+          isServer: false,
+          sendType: 'string',
+          requestId,
+        }),
+      });
+    } catch (err: unknown) {
       logger.communicationLog({
         level: 'error',
         error: {
-          description: '💥 An error occurred while receiving message',
+          description: '💥 An error occurred while publishing cancellation',
           message: (err as Error).message,
           stack: (err as Error).stack || '',
         },
-        action: 'receive',
-        data: message,
+        data: { correlationId },
         actor: 'Rpc Client',
         topic: routingKey,
-        isDataHidden: options.loggerOptions?.isConsumeDataHidden,
-        requestId: createdReqId,
+        action: 'publish',
+        requestId,
       });
-      throw err;
-    });
+    }
   }
 
   public async close() {
     logMqClose('Client');
+    this.replyConsumers.clear();
+    this.returnListener = undefined;
     await this.channelWrapper.cancelAll();
     await this.channelWrapper.close();
   }
@@ -374,7 +1571,7 @@ export class Client {
 let client: Client;
 export const getClient = async (
   connectionUrls: ConnectionUrl | ConnectionUrl[],
-  options?: InitRabbitOptions
+  options?: ClientInitOptions
 ) => {
   if (!client) {
     client = new Client();
@@ -1,39 +1,194 @@
 import { MessageType } from '../Common/types';
-import { ResponseContains } from '../Common/types';
+import { ReplyMode, ResponseContains } from '../Common/types';
 import { ServerRPCOptions } from '../Server/server.type';
-import { Options } from 'amqplib';
+import { ConsumeMessage, Options } from 'amqplib';
+import { RetryOptions } from '../Common/retry/retry.type';
+import { CompletionStrategy } from '../Common/completionStrategy/completionStrategy.type';
+import { CircuitBreakerOptions } from '../Common/circuitBreaker/circuitBreaker.type';
+import { ClientLimits } from '../Common/rateLimiter/rateLimiter.type';
+import { InitRabbitOptions } from '../Init/init.type';
+import {
+  ResponseCacheInitOptions,
+  RpcCacheOptions,
+} from '../Common/responseCache/responseCache.type';
+
+export type {
+  CompletionStrategy,
+  ReplyReducer,
+} from '../Common/completionStrategy/completionStrategy.type';
+export type {
+  ClientLimits,
+  LimitOptions,
+} from '../Common/rateLimiter/rateLimiter.type';
+export type {
+  CircuitBreakerOptions,
+  CircuitState,
+  CircuitStateChange,
+} from '../Common/circuitBreaker/circuitBreaker.type';
+export type {
+  CachedResponse,
+  ResponseCacheInitOptions,
+  ResponseCacheStore,
+  RpcCacheOptions,
+} from '../Common/responseCache/responseCache.type';
+
+export type ClientInitOptions = InitRabbitOptions & {
+  // rate and in-flight limits of publishMessage, publishRPCMessage and publishMultipleRPC
+  limits?: ClientLimits;
+  // where publishRPCMessage calls with the cache option keep their responses
+  responseCache?: ResponseCacheInitOptions;
+};
+
+export type InterceptedCall = 'publish' | 'rpc' | 'multiple-rpc';
+
+// A message about to be published, see Client.use
+export type OutgoingMessage = {
+  // where the message goes is given by the call, it cannot be changed
+  readonly call: InterceptedCall;
+  readonly exchangeName: string;
+  readonly routingKey: string;
+  readonly requestId: string;
+  // encoded with the sendType of the call once every interceptor ran
+  message: unknown;
+  // includes the headers set by r4bbit, e.g. the request id - they are applied again after the interceptors
+  headers: Record<string, unknown>;
+  // replyTo and correlationId of rpc calls are applied again after the interceptors
+  publishOptions: Options.Publish;
+};
+
+// Where a reply handed to afterReply comes from
+export type ReplyInfo = {
+  readonly call: Exclude<InterceptedCall, 'publish'>;
+  readonly exchangeName: string;
+  readonly routingKey: string;
+  readonly consumeMessage: ConsumeMessage;
+};
+
+// Both hooks may change their argument in place or return a replacement
+export type ClientInterceptor = {
+  beforePublish?: (
+    outgoing: OutgoingMessage
+  ) => OutgoingMessage | void | Promise<OutgoingMessage | void>;
+  // gets the successful replies only, throwing rejects the call
+  // (publishMultipleRPC reports the reply with the error instead, like a remote error)
+  afterReply?: (
+    response: Record<string, unknown>,
+    reply: ReplyInfo
+  ) => Record<string, unknown> | void | Promise<Record<string, unknown> | void>;
+};
+
+export type DeliveryOptions = {
+  // resolve only after the broker confirmed the message, requires a confirm channel (default)
+  confirm?: boolean;
+  // reject with UnroutableMessageError when the broker returns the message
+  mandatory?: boolean;
+  // from 0 (default) up to maxPriority of the queue, higher priorities are consumed first
+  priority?: number;
+};
 
 export type ClientOptions = {
   exchangeName: string;
   routingKey: string;
   sendType?: MessageType;
   publishOptions?: Options.Publish;
+  // the message waits in a ttl queue for `delay` ms or until `deliverAt` before it is routed
+  delay?: number;
+  deliverAt?: Date;
+  // max ms spent waiting for the client limits and a signal cancelling the wait
+  timeout?: number;
+  signal?: AbortSignal;
   loggerOptions?: {
     isDataHidden?: boolean;
   };
+} & DeliveryOptions;
+
+export type BatchMessage = {
+  message: Buffer | string | unknown;
+  routingKey: string;
+  headers?: Record<string, unknown>;
+  // overrides sendType and publishOptions of the batch
+  sendType?: MessageType;
+  publishOptions?: Options.Publish;
+};
+
+// client limits and delayed delivery do not apply to batches
+export type ClientBatchOptions = Omit<
+  ClientOptions,
+  'routingKey' | 'loggerOptions' | 'timeout' | 'signal' | 'delay' | 'deliverAt'
+>;
+
+// in the order of the published messages
+export type BatchPublishResult = {
+  routingKey: string;
+  isPublished: boolean;
+  error?: unknown;
 };
 
 export type ClientRPCOptions = {
   exchangeName: string;
   routingKey: string;
-  replyQueueName: string;
+  // required unless replyMode is 'direct-reply-to'
+  replyQueueName?: string;
+  replyMode?: ReplyMode;
   receiveType?: MessageType;
   timeout?: number;
+  signal?: AbortSignal;
+  retry?: RetryOptions;
+  // fail fast with CircuitOpenError while the route keeps failing, true for the defaults
+  circuitBreaker?: CircuitBreakerOptions | boolean;
+  // answer identical calls from the response cache, true for the defaults - only for idempotent routes
+  cache?: RpcCacheOptions | boolean;
+  // identical calls made while one is in flight share its request and reply, not with retry
+  coalesce?: boolean;
   responseContains?: ResponseContains;
-} & ServerRPCOptions;
+} & DeliveryOptions &
+  // retry, middlewares and concurrency of the server options are handled by the route
+  Omit<ServerRPCOptions, 'retry' | 'middlewares' | 'concurrency'>;
 
-export type ClientMultipleRPC = {
+export type ClientMultipleRPC<ResultType = unknown> = {
   exchangeName: string;
   routingKey: string;
-  replyQueueName: string;
+  // required unless replyMode is 'direct-reply-to'
+  replyQueueName?: string;
+  replyMode?: ReplyMode;
   receiveType?: MessageType;
   timeout?: number;
+  signal?: AbortSignal;
   responseContains?: ResponseContains;
   waitedReplies?: number;
+  // replySignature of every server which has to answer, completes as soon as all of them replied
+  // and rejects with MissingRespondersError on timeout
+  expectedResponders?: string[];
   handler?: (msg: Record<string, unknown>) => void;
-} & ServerRPCOptions;
+  // replies from signatures outside expectedResponders, ignored when not set
+  onUnexpectedReply?: (msg: Record<string, unknown>) => void;
+  // resolves with the strategy result instead of the array of replies
+  strategy?: CompletionStrategy<ResultType>;
+} & DeliveryOptions &
+  // retry, middlewares and concurrency of the server options are handled by the route
+  Omit<ServerRPCOptions, 'retry' | 'middlewares' | 'concurrency'>;
+
+// the observable emits every reply, completion strategies apply to publishMultipleRPC only
+export type ClientObserveMultipleRPC = Omit<ClientMultipleRPC, 'strategy'>;
 
 export type ClientObservable = {
   preparedResponse: Record<string, unknown>;
   reqId: string | undefined;
 };
+
+export type ClientContractOptions = Omit<
+  ClientRPCOptions,
+  | 'exchangeName'
+  | 'routingKey'
+  | 'sendType'
+  | 'receiveType'
+  | 'responseContains'
+>;
+
+export type ClientRPCStreamOptions = Omit<
+  ClientRPCOptions,
+  'timeout' | 'retry' | 'circuitBreaker' | 'cache' | 'coalesce'
+> & {
+  // max time between two consecutive chunks
+  inactivityTimeout?: number;
+};
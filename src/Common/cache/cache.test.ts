@@ -1,4 +1,5 @@
 import { ChannelWrapper } from 'amqp-connection-manager';
+import { TopologyMismatchError } from '../errors/errors';
 import { ConnectionSet } from './cache';
 
 describe('Cache tests', () => {
@@ -48,4 +49,88 @@ describe('Cache tests', () => {
     expect(mockedChannelWrapper.assertQueue).toBeCalledTimes(1);
     expect(mockedChannelWrapper.bindQueue).toBeCalledTimes(1);
   });
+
+  it('should assert a wait queue dead-lettering to the exchange once', async () => {
+    // when
+    const queue = await ConnectionSet.assertDelayQueue(
+      mockedChannelWrapper,
+      'delayExchange',
+      'reminders.send',
+      5_000
+    );
+    await ConnectionSet.assertDelayQueue(
+      mockedChannelWrapper,
+      'delayExchange',
+      'reminders.send',
+      5_000
+    );
+
+    // then
+    expect(queue).toBe('r4bbit.delay.delayExchange.reminders.send.5000');
+    expect(mockedChannelWrapper.assertQueue).toBeCalledTimes(1);
+    expect(mockedChannelWrapper.assertQueue).toBeCalledWith(queue, {
+      arguments: {
+        'x-message-ttl': 5_000,
+        'x-dead-letter-exchange': 'delayExchange',
+        'x-dead-letter-routing-key': 'reminders.send',
+        'x-expires': 65_000,
+      },
+    });
+  });
+
+  it('should reject with TopologyMismatchError when queue arguments differ', async () => {
+    // given
+    (mockedChannelWrapper.assertQueue as jest.Mock).mockRejectedValueOnce(
+      Object.assign(
+        new Error(
+          "PRECONDITION_FAILED - inequivalent arg 'x-max-priority' for queue 'priorityQueue'"
+        ),
+        { code: 406 }
+      )
+    );
+
+    // when
+    const error = await ConnectionSet.assert(
+      mockedChannelWrapper,
+      'priorityExchange',
+      'priorityQueue',
+      'priority.key',
+      false,
+      { arguments: { 'x-max-priority': 10 } }
+    ).catch((err) => err);
+
+    // then
+    expect(error).toBeInstanceOf(TopologyMismatchError);
+    expect(error).toMatchObject({
+      exchangeName: 'priorityExchange',
+      queueName: 'priorityQueue',
+    });
+  });
+
+  it('should reject when the wait queue cannot be asserted', async () => {
+    // given
+    (mockedChannelWrapper.assertQueue as jest.Mock).mockRejectedValueOnce(
+      Object.assign(
+        new Error("PRECONDITION_FAILED - inequivalent arg 'x-expires'"),
+        {
+          code: 406,
+        }
+      )
+    );
+
+    // when
+    const error = await ConnectionSet.assertDelayQueue(
+      mockedChannelWrapper,
+      'mismatched',
+      'reminders.send',
+      5_000
+    ).catch((err) => err);
+
+    // then
+    expect(error).toBeInstanceOf(TopologyMismatchError);
+    expect(error).toMatchObject({
+      exchangeName: 'mismatched',
+      queueName: 'r4bbit.delay.mismatched.reminders.send.5000',
+    });
+  });
 });
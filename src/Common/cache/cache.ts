@@ -1,8 +1,23 @@
 import { ChannelWrapper } from 'amqp-connection-manager';
+import { Options } from 'amqplib';
 import { logger } from '../logger/logger';
+import { DELAY_QUEUE_PREFIX } from '../types';
+import { TopologyMismatchError } from '../errors/errors';
+import {
+  getDeadLetterQueueName,
+  getRetryQueueName,
+} from '../deadLetter/deadLetter';
+
+// AMQP reply code of redeclaring an exchange or queue with other arguments
+const PRECONDITION_FAILED = 406;
+
+// unused wait queues are deleted by the broker this long after their ttl
+const DELAY_QUEUE_EXPIRES_MARGIN = 60_000;
 
 export class ConnectionSet {
   private static connectionSet = new Set<string>();
+  // wait queue name -> time of its last assertion
+  private static delayQueues = new Map<string, number>();
 
   private static serialize = (exchange: string, queue = '', routingKey = '') =>
     `${exchange}-*-${queue}-*-${routingKey}`;
@@ -34,14 +49,17 @@ export class ConnectionSet {
    * @param queue - will assert queue and bind it to exchange if provided
    * @param routingKey - will bind queue to exchange with routingKey if provided
    * @param channelWrapper
+   * @param queueOptions - e.g. arguments of the queue, not applied to reply queues
    * @returns void
+   * @throws TopologyMismatchError when the exchange or queue exists with other arguments
    */
   public static assert = async (
     channelWrapper: ChannelWrapper,
     exchange: string,
     queue = '',
     routingKey = '',
-    isReplyQueue = false
+    isReplyQueue = false,
+    queueOptions: Options.AssertQueue = {}
   ): Promise<void> => {
     if (this.isCacheHit(exchange, queue, routingKey)) {
       return;
@@ -57,14 +75,112 @@ export class ConnectionSet {
             autoDelete: true,
           });
         } else {
-          await channelWrapper.assertQueue(queue);
+          await channelWrapper.assertQueue(queue, queueOptions);
         }
         await channelWrapper.bindQueue(queue, exchange, routingKey);
       }
     } catch (err: unknown) {
+      if ((err as { code?: number }).code === PRECONDITION_FAILED) {
+        throw new TopologyMismatchError(
+          exchange,
+          queue,
+          (err as Error).message
+        );
+      }
       logger.error('Assertion error, exchange queue or binding threw an error');
     }
 
     this.setCache(exchange, queue, routingKey);
   };
+
+  /**
+   * Asserts the wait queue of delayed messages, messages expire after `delay`
+   * and are dead-lettered to the exchange with the routing key. Wait queues
+   * expire when unused, they are re-asserted before that would happen.
+   *
+   * @returns name of the wait queue
+   * @throws TopologyMismatchError when the wait queue exists with other arguments,
+   * the assertion error otherwise
+   */
+  public static assertDelayQueue = async (
+    channelWrapper: ChannelWrapper,
+    exchange: string,
+    routingKey: string,
+    delay: number
+  ): Promise<string> => {
+    const queue = `${DELAY_QUEUE_PREFIX}.${exchange}.${routingKey}.${delay}`;
+    const assertedAt = this.delayQueues.get(queue);
+
+    if (
+      assertedAt !== undefined &&
+      Date.now() - assertedAt < DELAY_QUEUE_EXPIRES_MARGIN / 2
+    ) {
+      return queue;
+    }
+
+    await this.assert(channelWrapper, exchange);
+
+    try {
+      await channelWrapper.assertQueue(queue, {
+        arguments: {
+          'x-message-ttl': delay,
+          'x-dead-letter-exchange': exchange,
+          'x-dead-letter-routing-key': routingKey,
+          'x-expires': delay + DELAY_QUEUE_EXPIRES_MARGIN,
+        },
+      });
+      this.delayQueues.set(queue, Date.now());
+    } catch (err: unknown) {
+      if ((err as { code?: number }).code === PRECONDITION_FAILED) {
+        throw new TopologyMismatchError(
+          exchange,
+          queue,
+          (err as Error).message
+        );
+      }
+      // a message published to a missing wait queue would be dropped
+      logger.error(`Assertion error, wait queue ${queue} threw an error`);
+      throw err;
+    }
+
+    return queue;
+  };
+
+  /**
+   * Asserts the retry queues of a route, one per delay, whose messages expire
+   * after the delay and are dead-lettered back to the route's queue through
+   * the default exchange, and the dead-letter queue of the route
+   *
+   * @throws TopologyMismatchError when a queue exists with other arguments
+   */
+  public static assertRetryQueues = async (
+    channelWrapper: ChannelWrapper,
+    queue: string,
+    delays: number[]
+  ): Promise<void> => {
+    const deadLetterQueue = getDeadLetterQueueName(queue);
+    if (this.isCacheHit('', deadLetterQueue, delays.join(','))) {
+      return;
+    }
+
+    try {
+      for (const delay of delays) {
+        await channelWrapper.assertQueue(getRetryQueueName(queue, delay), {
+          arguments: {
+            'x-message-ttl': delay,
+            'x-dead-letter-exchange': '',
+            'x-dead-letter-routing-key': queue,
+          },
+        });
+      }
+      await channelWrapper.assertQueue(deadLetterQueue);
+    } catch (err: unknown) {
+      if ((err as { code?: number }).code === PRECONDITION_FAILED) {
+        throw new TopologyMismatchError('', queue, (err as Error).message);
+      }
+      logger.error(`Assertion error, retry queues of ${queue} threw an error`);
+    }
+
+    this.setCache('', deadLetterQueue, delays.join(','));
+  };
 }
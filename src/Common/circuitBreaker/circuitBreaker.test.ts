@@ -0,0 +1,115 @@
+jest.mock('pino');
+import { CircuitOpenError, RpcAbortedError } from '../errors/errors';
+import { setupR4bbit } from '../setupRabbit/setupRabbit';
+import { CircuitBreakerRegistry } from './circuitBreaker';
+
+describe('circuit breaker tests', () => {
+  const options = {
+    failureThreshold: 0.5,
+    windowSize: 4,
+    minimumCalls: 4,
+    openDuration: 1_000,
+  };
+  const succeed = () => Promise.resolve('ok');
+  const fail = () => Promise.reject('Timeout of 100ms occured');
+
+  let registry: CircuitBreakerRegistry;
+  const stateChange = jest.fn();
+
+  const runAll = (calls: (() => Promise<string>)[]) =>
+    Promise.allSettled(
+      calls.map((call) => registry.get('prices', 'price.get').execute(call))
+    );
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    setupR4bbit({
+      logger: {
+        engine: {
+          info: (str: string) => str,
+          debug: (str: string) => str,
+          error: (str: string) => str,
+        },
+      },
+    });
+    registry = new CircuitBreakerRegistry();
+    registry.get('prices', 'price.get', options);
+    registry.on('stateChange', stateChange);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should stay closed below the failure threshold', async () => {
+    // when
+    await runAll([fail, succeed, succeed, succeed]);
+
+    // then
+    expect(registry.getState('prices', 'price.get')).toBe('closed');
+    expect(stateChange).not.toBeCalled();
+  });
+
+  it('should open and fail fast once the threshold is reached', async () => {
+    // given
+    await runAll([fail, succeed, fail, succeed]);
+    const call = jest.fn(succeed);
+
+    // when
+    const result = registry.get('prices', 'price.get').execute(call);
+
+    // then
+    await expect(result).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(call).not.toBeCalled();
+    expect(stateChange).toBeCalledWith({
+      exchangeName: 'prices',
+      routingKey: 'price.get',
+      from: 'closed',
+      to: 'open',
+    });
+  });
+
+  it('should not count aborted calls as failures', async () => {
+    // given
+    const abort = () =>
+      Promise.reject(new RpcAbortedError('prices', 'price.get', 'id'));
+
+    // when
+    await runAll([abort, abort, abort, abort]);
+
+    // then
+    expect(registry.getState('prices', 'price.get')).toBe('closed');
+  });
+
+  it('should close after a successful half-open probe', async () => {
+    // given
+    await runAll([fail, fail, fail, fail]);
+
+    // when
+    jest.advanceTimersByTime(1_000);
+    const [probe, rejected] = await runAll([succeed, succeed]);
+
+    // then
+    expect(probe.status).toBe('fulfilled');
+    expect(rejected.status).toBe('rejected');
+    expect(registry.getState('prices', 'price.get')).toBe('closed');
+    expect(stateChange.mock.calls.map(([change]) => change.to)).toEqual([
+      'open',
+      'half-open',
+      'closed',
+    ]);
+  });
+
+  it('should open again when the probe fails', async () => {
+    // given
+    await runAll([fail, fail, fail, fail]);
+    jest.advanceTimersByTime(1_000);
+
+    // when
+    await runAll([fail]);
+
+    // then
+    expect(registry.getState('prices', 'price.get')).toBe('open');
+  });
+});
@@ -0,0 +1,200 @@
+import { EventEmitter } from 'events';
+import { CircuitOpenError, RpcAbortedError } from '../errors/errors';
+import { logger } from '../logger/logger';
+import {
+  CircuitBreakerOptions,
+  CircuitState,
+  CircuitStateChange,
+} from './circuitBreaker.type';
+
+const DEFAULT_OPTIONS: Required<CircuitBreakerOptions> = {
+  failureThreshold: 0.5,
+  windowSize: 10,
+  minimumCalls: 5,
+  openDuration: 30_000,
+  halfOpenProbes: 1,
+};
+
+export class CircuitBreaker {
+  private _state: CircuitState = 'closed';
+  // latest outcomes, true for a failed call
+  private outcomes: boolean[] = [];
+  private openedAt = 0;
+  private probesInFlight = 0;
+  private probesSucceeded = 0;
+  private options: Required<CircuitBreakerOptions>;
+
+  constructor(
+    private exchangeName: string,
+    private routingKey: string,
+    options: CircuitBreakerOptions,
+    private onStateChange: (change: CircuitStateChange) => void
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  get state(): CircuitState {
+    if (
+      this._state === 'open' &&
+      Date.now() - this.openedAt >= this.options.openDuration
+    ) {
+      this.transition('half-open');
+    }
+
+    return this._state;
+  }
+
+  /**
+   * Runs the call unless the circuit is open, aborted calls are not counted as failures
+   *
+   * @throws CircuitOpenError when the circuit is open or all half-open probes are taken
+   */
+  public async execute<T>(call: () => Promise<T>): Promise<T> {
+    const isProbe = this.acquire();
+
+    try {
+      const result = await call();
+      this.record(false, isProbe);
+      return result;
+    } catch (err: unknown) {
+      if (err instanceof RpcAbortedError) {
+        isProbe && this.probesInFlight--;
+      } else {
+        this.record(true, isProbe);
+      }
+      throw err;
+    }
+  }
+
+  // @returns whether the call is a half-open probe
+  private acquire(): boolean {
+    const state = this.state;
+
+    if (state === 'closed') {
+      return false;
+    }
+
+    if (
+      state === 'half-open' &&
+      this.probesInFlight + this.probesSucceeded < this.options.halfOpenProbes
+    ) {
+      this.probesInFlight++;
+      return true;
+    }
+
+    throw new CircuitOpenError(
+      this.exchangeName,
+      this.routingKey,
+      Math.max(0, this.openedAt + this.options.openDuration - Date.now())
+    );
+  }
+
+  private record(isFailure: boolean, isProbe: boolean) {
+    if (isProbe) {
+      this.probesInFlight--;
+
+      if (isFailure) {
+        this.transition('open');
+      } else if (++this.probesSucceeded >= this.options.halfOpenProbes) {
+        this.transition('closed');
+      }
+      return;
+    }
+
+    // late outcomes of calls started before the circuit opened are ignored
+    if (this._state !== 'closed') {
+      return;
+    }
+
+    const { windowSize, minimumCalls, failureThreshold } = this.options;
+    this.outcomes = [...this.outcomes, isFailure].slice(-windowSize);
+    const failures = this.outcomes.filter(Boolean).length;
+
+    if (
+      this.outcomes.length >= minimumCalls &&
+      failures / this.outcomes.length >= failureThreshold
+    ) {
+      this.transition('open');
+    }
+  }
+
+  private transition(to: CircuitState) {
+    const from = this._state;
+    this._state = to;
+    this.outcomes = [];
+    this.probesSucceeded = 0;
+
+    if (to === 'open') {
+      this.openedAt = Date.now();
+    }
+
+    this.onStateChange({
+      exchangeName: this.exchangeName,
+      routingKey: this.routingKey,
+      from,
+      to,
+    });
+  }
+}
+
+/**
+ * Circuit breakers of a Client by exchange and routing key,
+ * emits 'stateChange' with CircuitStateChange on every transition
+ */
+export class CircuitBreakerRegistry extends EventEmitter {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  private static serialize = (exchangeName: string, routingKey: string) =>
+    `${exchangeName}-*-${routingKey}`;
+
+  // options of the first call for a route create its breaker
+  public get(
+    exchangeName: string,
+    routingKey: string,
+    options: CircuitBreakerOptions = {}
+  ): CircuitBreaker {
+    const key = CircuitBreakerRegistry.serialize(exchangeName, routingKey);
+    let breaker = this.breakers.get(key);
+
+    if (!breaker) {
+      breaker = new CircuitBreaker(
+        exchangeName,
+        routingKey,
+        options,
+        this.onStateChange
+      );
+      this.breakers.set(key, breaker);
+    }
+
+    return breaker;
+  }
+
+  public getState(exchangeName: string, routingKey: string): CircuitState {
+    return (
+      this.breakers.get(
+        CircuitBreakerRegistry.serialize(exchangeName, routingKey)
+      )?.state ?? 'closed'
+    );
+  }
+
+  private onStateChange = (change: CircuitStateChange) => {
+    logger.communicationLog({
+      level: change.to === 'open' ? 'error' : 'info',
+      data: change,
+      actor: 'Rpc Client',
+      action: 'publish',
+      topic: change.routingKey,
+      ...(change.to === 'open'
+        ? {
+            error: {
+              description: '💥 Circuit opened, rpc calls fail fast',
+              message: `${change.exchangeName}/${change.routingKey} circuit went from ${change.from} to ${change.to}`,
+              stack: '',
+            },
+          }
+        : {}),
+    });
+
+    this.emit('stateChange', change);
+  };
+}
@@ -0,0 +1,21 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitBreakerOptions = {
+  // ratio (0-1) of failed calls within the window which opens the circuit
+  failureThreshold?: number;
+  // number of the latest calls taken into account
+  windowSize?: number;
+  // the ratio is not evaluated before the window holds this many calls
+  minimumCalls?: number;
+  // time in ms the circuit stays open before probing the route again
+  openDuration?: number;
+  // calls let through while half-open, all of them have to succeed to close the circuit
+  halfOpenProbes?: number;
+};
+
+export type CircuitStateChange = {
+  exchangeName: string;
+  routingKey: string;
+  from: CircuitState;
+  to: CircuitState;
+};
@@ -0,0 +1,127 @@
+import { QuorumNotReachedError } from '../errors/errors';
+import { createCompletionReducer } from './completionStrategy';
+import { CompletionReducer } from './completionStrategy.type';
+
+describe('completion strategy tests', () => {
+  const route = { exchangeName: 'prices', routingKey: 'price.get' };
+
+  const run = (reducer: CompletionReducer, replies: unknown[]) => {
+    let acc = reducer.initial;
+    for (const content of replies) {
+      const step = reducer.reduce(acc, { content });
+      acc = step.acc;
+      if (step.done) {
+        return reducer.result(acc, true);
+      }
+    }
+    return reducer.result(acc, false);
+  };
+
+  it('should let the first reply win', () => {
+    // when
+    const result = run(createCompletionReducer('first', route), [10, 20]);
+
+    // then
+    expect(result).toEqual({ content: 10 });
+  });
+
+  it('should skip failed responders with the first strategy', () => {
+    // given
+    const reducer = createCompletionReducer('first', route);
+
+    // when
+    const step = reducer.reduce(reducer.initial, { error: new Error('Boom') });
+    const next = reducer.reduce(step.acc, { content: 20 });
+
+    // then
+    expect(step.done).toBe(false);
+    expect(next).toEqual({ acc: { content: 20 }, done: true });
+  });
+
+  it('should throw when every responder failed with the first strategy', () => {
+    // given
+    const reducer = createCompletionReducer('first', route);
+
+    // when
+    const step = reducer.reduce(reducer.initial, { error: new Error('Boom') });
+
+    // then
+    expect(() => reducer.result(step.acc, false)).toThrow(
+      QuorumNotReachedError
+    );
+  });
+
+  it('should resolve with the content agreed by the quorum', () => {
+    // given
+    const reducer = createCompletionReducer({ quorum: 2 }, route);
+
+    // when
+    const result = run(reducer, [{ v: 1 }, { v: 2 }, { v: 2 }, { v: 1 }]);
+
+    // then
+    expect(result).toEqual({ content: { v: 2 } });
+  });
+
+  it('should not count failed responders as votes', () => {
+    // given
+    const reducer = createCompletionReducer({ quorum: 2 }, route);
+
+    // when
+    const step = reducer.reduce(reducer.initial, { error: new Error('Boom') });
+    const next = reducer.reduce(step.acc, { error: new Error('Boom') });
+
+    // then
+    expect(next.done).toBe(false);
+  });
+
+  it('should throw when the quorum was not reached', () => {
+    // given
+    const reducer = createCompletionReducer({ quorum: 3 }, route);
+
+    // when & then
+    expect(() => run(reducer, [1, 1, 2])).toThrow(QuorumNotReachedError);
+  });
+
+  it('should derive the majority from expectedResponders', () => {
+    // given
+    const majority = () =>
+      createCompletionReducer('majority', {
+        ...route,
+        expectedResponders: ['a', 'b', 'c', 'd'],
+      });
+
+    // when & then
+    expect(() => run(majority(), [1, 1, 2])).toThrow(QuorumNotReachedError);
+    expect(run(majority(), [1, 2, 1, 1])).toEqual({ content: 1 });
+  });
+
+  it('should require expectedResponders for all and majority', () => {
+    // when & then
+    expect(() => createCompletionReducer('all', route)).toThrow(
+      'requires expectedResponders'
+    );
+    expect(() => createCompletionReducer('majority', route)).toThrow(
+      'requires expectedResponders'
+    );
+  });
+
+  it('should stop a custom reducer once it is done', () => {
+    // given
+    const reducer = createCompletionReducer<number>(
+      {
+        initial: Infinity,
+        reducer: (lowest, reply) => {
+          const price = Math.min(lowest, reply.content as number);
+          return { acc: price, done: price < 5 };
+        },
+      },
+      route
+    );
+
+    // when
+    const result = run(reducer, [12, 8, 3, 1]);
+
+    // then
+    expect(result).toBe(3);
+  });
+});
@@ -0,0 +1,126 @@
+import { QuorumNotReachedError, R4bbitError } from '../errors/errors';
+import {
+  CompletionReducer,
+  CompletionStrategy,
+} from './completionStrategy.type';
+
+type RouteInfo = {
+  exchangeName: string;
+  routingKey: string;
+  expectedResponders?: string[];
+};
+
+const requireResponders = (
+  strategy: 'all' | 'majority',
+  expectedResponders?: string[]
+): string[] => {
+  if (!expectedResponders?.length) {
+    throw new R4bbitError(
+      `The '${strategy}' completion strategy requires expectedResponders`
+    );
+  }
+
+  return expectedResponders;
+};
+
+const quorumReducer = (
+  quorum: number,
+  { exchangeName, routingKey }: RouteInfo
+): CompletionReducer => {
+  const replies: Record<string, unknown>[] = [];
+  // replies grouped by their content
+  const ballots = new Map<string, Record<string, unknown>[]>();
+
+  return {
+    initial: undefined,
+    reduce: (acc, reply) => {
+      replies.push(reply);
+      // failed responders do not vote
+      if (reply.error) {
+        return { acc, done: false };
+      }
+
+      const ballot = JSON.stringify(reply.content) ?? '';
+      const votes = [...(ballots.get(ballot) ?? []), reply];
+      ballots.set(ballot, votes);
+
+      return votes.length >= quorum
+        ? { acc: votes[0], done: true }
+        : { acc, done: false };
+    },
+    result: (acc, done) => {
+      if (!done) {
+        throw new QuorumNotReachedError(
+          exchangeName,
+          routingKey,
+          quorum,
+          replies
+        );
+      }
+      return acc;
+    },
+  };
+};
+
+/**
+ * Turns a completion strategy of publishMultipleRPC into a reducer over its replies,
+ * a new reducer has to be created for every call
+ */
+export const createCompletionReducer = <Acc>(
+  strategy: CompletionStrategy<Acc>,
+  route: RouteInfo
+): CompletionReducer => {
+  if (strategy === 'first') {
+    const failures: Record<string, unknown>[] = [];
+    return {
+      initial: undefined,
+      // a failed responder does not win, the next reply is waited for
+      reduce: (acc, reply) => {
+        if (reply.error) {
+          failures.push(reply);
+          return { acc, done: false };
+        }
+        return { acc: reply, done: true };
+      },
+      result: (acc, done) => {
+        if (!done && failures.length) {
+          throw new QuorumNotReachedError(
+            route.exchangeName,
+            route.routingKey,
+            1,
+            failures
+          );
+        }
+        return acc;
+      },
+    };
+  }
+
+  if (strategy === 'all') {
+    requireResponders(strategy, route.expectedResponders);
+    // completion itself is driven by expectedResponders
+    return {
+      initial: [],
+      reduce: (acc, reply) => ({
+        acc: [...(acc as Record<string, unknown>[]), reply],
+        done: false,
+      }),
+      result: (acc) => acc,
+    };
+  }
+
+  if (strategy === 'majority') {
+    const { length } = requireResponders(strategy, route.expectedResponders);
+    return quorumReducer(Math.floor(length / 2) + 1, route);
+  }
+
+  if ('quorum' in strategy) {
+    return quorumReducer(strategy.quorum, route);
+  }
+
+  return {
+    initial: strategy.initial,
+    reduce: (acc, reply) => strategy.reducer(acc as Acc, reply),
+    result: (acc) => acc,
+  };
+};
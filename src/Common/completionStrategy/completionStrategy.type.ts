@@ -0,0 +1,23 @@
+export type ReplyReducer<Acc> = (
+  acc: Acc,
+  reply: Record<string, unknown>
+) => { acc: Acc; done: boolean };
+
+// 'first' - the first successful reply wins
+// 'all' - every one of expectedResponders has to answer
+// 'majority' - more than half of expectedResponders agree on the content
+// quorum - the given number of replies agree on the content
+// reducer - custom accumulator, resolves with acc once done or when the replies end
+export type CompletionStrategy<Acc = unknown> =
+  | 'first'
+  | 'all'
+  | 'majority'
+  | { quorum: number }
+  | { reducer: ReplyReducer<Acc>; initial: Acc };
+
+export type CompletionReducer = {
+  initial: unknown;
+  reduce: ReplyReducer<unknown>;
+  // `done` is false when the replies ended (timeout, waitedReplies) before the strategy was met
+  result: (acc: unknown, done: boolean) => unknown;
+};
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { defineContract, parseContract } from './contract';
+import { ContractValidationError } from '../errors/errors';
+
+describe('contract tests', () => {
+  const contract = defineContract({
+    exchangeName: 'users',
+    routingKey: 'users.get',
+    requestSchema: z.object({ id: z.string() }),
+    responseSchema: z.object({
+      id: z.string(),
+      name: z.string(),
+      active: z.boolean().default(true),
+    }),
+  });
+
+  it('should return the parsed request', () => {
+    // when
+    const request = parseContract(contract, 'request', { id: '1' });
+
+    // then
+    expect(request).toEqual({ id: '1' });
+  });
+
+  it('should apply schema defaults to the response', () => {
+    // when
+    const response = parseContract(contract, 'response', {
+      id: '1',
+      name: 'Bugs',
+    });
+
+    // then
+    expect(response).toEqual({ id: '1', name: 'Bugs', active: true });
+  });
+
+  it('should throw a ContractValidationError for an invalid payload', () => {
+    // when & then
+    expect(() => parseContract(contract, 'request', { id: 1 })).toThrowError(
+      ContractValidationError
+    );
+  });
+
+  it('should describe which part of the contract failed', () => {
+    // when
+    let error: ContractValidationError | undefined;
+    try {
+      parseContract(contract, 'response', { id: '1' });
+    } catch (err) {
+      error = err as ContractValidationError;
+    }
+
+    // then
+    expect(error?.part).toBe('response');
+    expect(error?.routingKey).toBe('users.get');
+    expect(error?.issues[0].path).toEqual(['name']);
+  });
+});
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { ContractValidationError } from '../errors/errors';
+import { RpcContract } from './contract.type';
+
+export const defineContract = <
+  RequestSchema extends z.ZodTypeAny,
+  ResponseSchema extends z.ZodTypeAny
+>(
+  contract: RpcContract<RequestSchema, ResponseSchema>
+): RpcContract<RequestSchema, ResponseSchema> => contract;
+
+/**
+ * Validates one side of an rpc contract
+ *
+ * @param contract - contract the payload belongs to
+ * @param part - 'request' validates against requestSchema, 'response' against responseSchema
+ * @param payload - data to validate
+ * @returns parsed payload (with zod transforms and defaults applied)
+ * @throws ContractValidationError when the payload does not match the schema
+ */
+export const parseContract = <C extends RpcContract>(
+  contract: C,
+  part: 'request' | 'response',
+  payload: unknown
+) => {
+  const schema =
+    part === 'request' ? contract.requestSchema : contract.responseSchema;
+  const result = schema.safeParse(payload);
+
+  if (!result.success) {
+    throw new ContractValidationError(
+      contract.exchangeName,
+      contract.routingKey,
+      part,
+      result.error.issues
+    );
+  }
+
+  return result.data;
+};
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { RpcContext } from '../../Server/server.type';
+
+export type RpcContract<
+  RequestSchema extends z.ZodTypeAny = z.ZodTypeAny,
+  ResponseSchema extends z.ZodTypeAny = z.ZodTypeAny
+> = {
+  exchangeName: string;
+  routingKey: string;
+  requestSchema: RequestSchema;
+  responseSchema: ResponseSchema;
+};
+
+// What the caller passes to client.call / what the handler receives
+export type ContractRequest<C extends RpcContract> = z.input<
+  C['requestSchema']
+>;
+export type ParsedContractRequest<C extends RpcContract> = z.output<
+  C['requestSchema']
+>;
+
+// What the handler returns / what client.call resolves with
+export type ContractResponse<C extends RpcContract> = z.input<
+  C['responseSchema']
+>;
+export type ParsedContractResponse<C extends RpcContract> = z.output<
+  C['responseSchema']
+>;
+
+export type ContractHandler<C extends RpcContract> = (
+  payload: ParsedContractRequest<C>,
+  context: RpcContext
+) => ContractResponse<C> | Promise<ContractResponse<C>>;
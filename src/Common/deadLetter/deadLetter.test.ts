@@ -0,0 +1,94 @@
+import { ConsumeMessage } from 'amqplib';
+import { getFailureDestination, toDeadLetter } from './deadLetter';
+
+describe('Dead letter tests', () => {
+  const failedMessage = (headers: Record<string, unknown> = {}) =>
+    ({
+      content: Buffer.from('{}'),
+      fields: { exchange: 'orders', routingKey: 'orders.created' },
+      properties: { headers },
+    } as unknown as ConsumeMessage);
+
+  it('should send the first failure to the retry queue of the first delay', () => {
+    // when
+    const destination = getFailureDestination(
+      failedMessage(),
+      'orders-queue',
+      { maxAttempts: 3, delays: [1_000, 5_000] },
+      new Error('Database unavailable')
+    );
+
+    // then
+    expect(destination).toEqual({
+      queue: 'orders-queue.retry.1000',
+      isDeadLettered: false,
+      headers: expect.objectContaining({
+        'x-attempt': 2,
+        'x-original-exchange': 'orders',
+        'x-original-routing-key': 'orders.created',
+        'x-error-message': 'Database unavailable',
+      }),
+    });
+  });
+
+  it('should reuse the last delay for further attempts', () => {
+    // when
+    const { queue } = getFailureDestination(
+      failedMessage({ 'x-attempt': 4 }),
+      'orders-queue',
+      { maxAttempts: 10, delays: [1_000, 5_000] },
+      'Timeout'
+    );
+
+    // then
+    expect(queue).toBe('orders-queue.retry.5000');
+  });
+
+  it('should dead-letter the message after the last attempt', () => {
+    // given
+    const retried = {
+      ...failedMessage({
+        'x-attempt': 3,
+        'x-original-exchange': 'orders',
+        'x-original-routing-key': 'orders.created',
+      }),
+      fields: { exchange: '', routingKey: 'orders-queue' },
+    } as unknown as ConsumeMessage;
+
+    // when
+    const destination = getFailureDestination(
+      retried,
+      'orders-queue',
+      { maxAttempts: 3 },
+      new TypeError('Cannot read properties of undefined')
+    );
+
+    // then
+    expect(destination).toEqual({
+      queue: 'orders-queue.dlq',
+      isDeadLettered: true,
+      headers: expect.objectContaining({
+        'x-attempt': 3,
+        'x-original-exchange': 'orders',
+        'x-original-routing-key': 'orders.created',
+        'x-error-name': 'TypeError',
+      }),
+    });
+  });
+
+  it('should list a dead letter which cannot be decoded as its raw content', () => {
+    // given
+    const message = {
+      content: Buffer.from('{ malformed'),
+      fields: { exchange: '', routingKey: 'orders-queue.dlq' },
+      properties: { headers: { 'x-send-type': 'json' } },
+    } as unknown as ConsumeMessage;
+
+    // when
+    const deadLetter = toDeadLetter(message);
+
+    // then
+    expect(deadLetter.content).toBe('{ malformed');
+    expect(deadLetter.attempts).toBe(1);
+  });
+});
@@ -0,0 +1,131 @@
+import { ConsumeMessage, Message } from 'amqplib';
+import { DeadLetter, ServerRetryOptions } from '../../Server/server.type';
+import { decodeMessage } from '../decodeMessage/decodeMessage';
+import { isObject } from '../typeGuards/isObject';
+import { isString } from '../typeGuards/isString';
+import {
+  HEADER_ATTEMPT,
+  HEADER_ERROR_MESSAGE,
+  HEADER_ERROR_NAME,
+  HEADER_FAILED_AT,
+  HEADER_ORIGINAL_EXCHANGE,
+  HEADER_ORIGINAL_ROUTING_KEY,
+  HEADER_REQUEST_ID,
+} from '../types';
+
+const DEFAULT_RETRY_DELAYS = [1_000];
+
+export const getRetryQueueName = (queueName: string, delay: number) =>
+  `${queueName}.retry.${delay}`;
+
+export const getDeadLetterQueueName = (queueName: string) => `${queueName}.dlq`;
+
+export const getRetryDelays = ({ delays }: ServerRetryOptions): number[] =>
+  delays?.length ? delays : DEFAULT_RETRY_DELAYS;
+
+// attempt the message is delivered for, starting from 1
+export const getAttempt = (consumeMessage: ConsumeMessage): number =>
+  Number(consumeMessage.properties.headers?.[HEADER_ATTEMPT]) || 1;
+
+export const isLastAttempt = (
+  consumeMessage: ConsumeMessage,
+  { maxAttempts }: ServerRetryOptions
+): boolean => getAttempt(consumeMessage) >= maxAttempts;
+
+export type FailureDestination = {
+  queue: string;
+  headers: Record<string, unknown>;
+  isDeadLettered: boolean;
+};
+
+/**
+ * Decides where a message whose handler failed goes next - the retry queue
+ * of its next attempt or, after the last attempt, the dead-letter queue.
+ * The original exchange and routing key survive every retry so the message can be replayed.
+ */
+export const getFailureDestination = (
+  consumeMessage: ConsumeMessage,
+  queueName: string,
+  retry: ServerRetryOptions,
+  error: unknown
+): FailureDestination => {
+  const { headers = {} } = consumeMessage.properties;
+  const attempt = getAttempt(consumeMessage);
+  const failureHeaders = {
+    ...headers,
+    [HEADER_ORIGINAL_EXCHANGE]:
+      headers[HEADER_ORIGINAL_EXCHANGE] ?? consumeMessage.fields.exchange,
+    [HEADER_ORIGINAL_ROUTING_KEY]:
+      headers[HEADER_ORIGINAL_ROUTING_KEY] ?? consumeMessage.fields.routingKey,
+    [HEADER_ERROR_NAME]:
+      isObject(error) && isString(error.name) ? error.name : 'Error',
+    [HEADER_ERROR_MESSAGE]:
+      isObject(error) && isString(error.message)
+        ? error.message
+        : String(error),
+    [HEADER_FAILED_AT]: new Date().toISOString(),
+  };
+
+  if (isLastAttempt(consumeMessage, retry)) {
+    return {
+      queue: getDeadLetterQueueName(queueName),
+      headers: { ...failureHeaders, [HEADER_ATTEMPT]: attempt },
+      isDeadLettered: true,
+    };
+  }
+
+  const delays = getRetryDelays(retry);
+  const delay = delays[Math.min(attempt, delays.length) - 1];
+
+  return {
+    queue: getRetryQueueName(queueName, delay),
+    headers: { ...failureHeaders, [HEADER_ATTEMPT]: attempt + 1 },
+    isDeadLettered: false,
+  };
+};
+
+const decodeDeadLetter = (message: Message): unknown => {
+  try {
+    return decodeMessage(message as ConsumeMessage);
+  } catch {
+    // a message which cannot be decoded is still listed and can be replayed as is
+    return message.content.toString();
+  }
+};
+
+export const toDeadLetter = (message: Message): DeadLetter => {
+  const { headers = {} } = message.properties;
+
+  return {
+    content: decodeDeadLetter(message),
+    headers,
+    exchangeName: headers[HEADER_ORIGINAL_EXCHANGE] ?? message.fields.exchange,
+    routingKey:
+      headers[HEADER_ORIGINAL_ROUTING_KEY] ?? message.fields.routingKey,
+    attempts: Number(headers[HEADER_ATTEMPT]) || 1,
+    error: {
+      name: headers[HEADER_ERROR_NAME] ?? 'Error',
+      message: headers[HEADER_ERROR_MESSAGE] ?? '',
+    },
+    failedAt: headers[HEADER_FAILED_AT],
+    requestId: headers[HEADER_REQUEST_ID],
+  };
+};
+
+// replayed messages start over with a fresh retry budget
+export const getReplayHeaders = (
+  headers: Record<string, unknown> = {}
+): Record<string, unknown> => {
+  const replayHeaders = { ...headers };
+  [
+    HEADER_ATTEMPT,
+    HEADER_ORIGINAL_EXCHANGE,
+    HEADER_ORIGINAL_ROUTING_KEY,
+    HEADER_ERROR_NAME,
+    HEADER_ERROR_MESSAGE,
+    HEADER_FAILED_AT,
+    'x-death',
+  ].forEach((header) => delete replayHeaders[header]);
+
+  return replayHeaders;
+};
@@ -1,6 +1,7 @@
 import { decodeMessage } from './decodeMessage';
 import { ConsumeMessage } from 'amqplib';
-import { HEADER_SEND_TYPE } from '../types';
+import { HEADER_REQUEST_ID, HEADER_SEND_TYPE } from '../types';
+import { DecodeError } from '../errors/errors';
 
 describe('decodeMessage', () => {
   it('should decode a string message', () => {
@@ -64,4 +65,36 @@ describe('decodeMessage', () => {
     // then
     expect(result).toEqual(expectedMessage);
   });
+
+  it('should throw DecodeError for malformed JSON', () => {
+    // given
+    const consumeMessage = {
+      content: Buffer.from('{ malformed'),
+      fields: { exchange: 'test-exchange', routingKey: 'users.get' },
+      properties: {
+        headers: {
+          [HEADER_SEND_TYPE]: 'json',
+          [HEADER_REQUEST_ID]: 'req-1',
+        },
+      },
+    } as unknown as ConsumeMessage;
+
+    // when
+    const error = (() => {
+      try {
+        return decodeMessage(consumeMessage);
+      } catch (err: unknown) {
+        return err;
+      }
+    })();
+
+    // then
+    expect(error).toBeInstanceOf(DecodeError);
+    expect(error).toMatchObject({
+      exchangeName: 'test-exchange',
+      routingKey: 'users.get',
+      requestId: 'req-1',
+      sendType: 'json',
+    });
+  });
 });
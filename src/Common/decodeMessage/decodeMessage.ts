@@ -1,5 +1,6 @@
 import { ConsumeMessage } from 'amqplib';
-import { HEADER_SEND_TYPE, MessageType } from '../types';
+import { DecodeError } from '../errors/errors';
+import { HEADER_REQUEST_ID, HEADER_SEND_TYPE, MessageType } from '../types';
 
 export const decodeMessage = (consumeMessage: ConsumeMessage | null) => {
   const content = consumeMessage?.content.toString() as string;
@@ -9,7 +10,17 @@ export const decodeMessage = (consumeMessage: ConsumeMessage | null) => {
 
   switch (sendType) {
     case 'json':
-      return JSON.parse(content);
+      try {
+        return JSON.parse(content);
+      } catch (err: unknown) {
+        throw new DecodeError(
+          consumeMessage?.fields?.exchange,
+          consumeMessage?.fields?.routingKey,
+          consumeMessage?.properties.headers[HEADER_REQUEST_ID],
+          sendType,
+          err
+        );
+      }
     case 'string':
     case 'object':
     default:
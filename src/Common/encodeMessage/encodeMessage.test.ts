@@ -1,3 +1,4 @@
+import { EncodeError } from '../errors/errors';
 import { MessageType } from '../types';
 import { encodeMessage } from './encodeMessage';
 
@@ -43,9 +44,7 @@ describe('encodeMessage', () => {
     // when
 
     // then
-    expect(() => encodeMessage(expectedMessage, 'object')).toThrow(
-      new Error('Message is not an object that implements toString method')
-    );
+    expect(() => encodeMessage(expectedMessage, 'object')).toThrow(EncodeError);
   });
 
   it('shoud stringify by default any non specificly supported message', () => {
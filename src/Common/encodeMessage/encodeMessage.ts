@@ -1,3 +1,4 @@
+import { EncodeError } from '../errors/errors';
 import { MessageType } from '../types';
 
 export const encodeMessage = (message: unknown, messageType?: MessageType) => {
@@ -16,9 +17,7 @@ export const encodeMessage = (message: unknown, messageType?: MessageType) => {
       ) {
         return message.toString();
       }
-      throw new Error(
-        'Message is not an object that implements toString method'
-      );
+      throw new EncodeError(messageType);
     default:
       return JSON.stringify(message);
   }
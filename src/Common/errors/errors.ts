@@ -0,0 +1,236 @@
+import { ZodIssue } from 'zod';
+import { RpcErrorEnvelope } from '../types';
+import { RetryAttempt } from '../retry/retry.type';
+import { RateLimitReason } from '../rateLimiter/rateLimiter.type';
+
+// Base of every error thrown by r4bbit, lets callers tell them apart with instanceof
+export class R4bbitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'R4bbitError';
+  }
+}
+
+export class ConnectionError extends R4bbitError {
+  constructor(public readonly cause: unknown) {
+    super(`Error while connecting to RabbitMQ: ${cause}`);
+    this.name = 'ConnectionError';
+  }
+}
+
+export class InvalidUriError extends R4bbitError {
+  constructor(
+    public readonly invalidUris: string[],
+    message = `One or more RabbitMQ URIs are not valid -> ${invalidUris.join(
+      ', '
+    )}`
+  ) {
+    super(message);
+    this.name = 'InvalidUriError';
+  }
+}
+
+export class NotInitializedError extends R4bbitError {
+  constructor(public readonly actor: 'Client' | 'Server') {
+    super('You have to trigger init method first');
+    this.name = 'NotInitializedError';
+  }
+}
+
+export class EncodeError extends R4bbitError {
+  constructor(public readonly messageType: string) {
+    super(
+      `Message cannot be encoded as ${messageType}, it is not an object that implements toString method`
+    );
+    this.name = 'EncodeError';
+  }
+}
+
+export class DecodeError extends R4bbitError {
+  constructor(
+    public readonly exchangeName: string | undefined,
+    public readonly routingKey: string | undefined,
+    public readonly requestId: string | undefined,
+    public readonly sendType: string,
+    public readonly cause: unknown
+  ) {
+    super(
+      `Message from ${exchangeName}/${routingKey} cannot be decoded as ${sendType}: ${
+        cause instanceof Error ? cause.message : cause
+      }`
+    );
+    this.name = 'DecodeError';
+  }
+}
+
+export class RpcTimeoutError extends R4bbitError {
+  constructor(
+    public readonly exchangeName: string,
+    public readonly routingKey: string,
+    // ms the caller waited for the reply, or for the next chunk of a stream
+    public readonly timeout: number,
+    public readonly correlationId?: string,
+    public readonly requestId?: string
+  ) {
+    super(`Timeout of ${timeout}ms occured for the given rpc message`);
+    this.name = 'RpcTimeoutError';
+  }
+}
+
+export class ContractValidationError extends R4bbitError {
+  public readonly code = 'CONTRACT_VALIDATION';
+
+  constructor(
+    public readonly exchangeName: string,
+    public readonly routingKey: string,
+    public readonly part: 'request' | 'response',
+    public readonly issues: ZodIssue[]
+  ) {
+    super(
+      `Invalid rpc ${part} for ${exchangeName}/${routingKey}: ${issues
+        .map((issue) => `${issue.path.join('.') || '<root>'} ${issue.message}`)
+        .join(', ')}`
+    );
+    this.name = 'ContractValidationError';
+  }
+}
+
+export class RpcAbortedError extends R4bbitError {
+  constructor(
+    public readonly exchangeName: string,
+    public readonly routingKey: string,
+    // undefined for a coalesced caller, which does not own the request
+    public readonly correlationId: string | undefined,
+    public readonly reason?: unknown
+  ) {
+    super(
+      `Rpc message ${
+        correlationId ? `${correlationId} ` : ''
+      }to ${exchangeName}/${routingKey} was aborted`
+    );
+    this.name = 'RpcAbortedError';
+  }
+}
+
+export class RemoteRpcError extends R4bbitError {
+  public readonly remoteName: string;
+  public readonly code?: string;
+  public readonly details?: unknown;
+  public readonly requestId?: string;
+
+  constructor(envelope: RpcErrorEnvelope, public readonly signature?: string) {
+    super(envelope.message);
+    this.name = 'RemoteRpcError';
+    this.remoteName = envelope.name;
+    this.code = envelope.code;
+    this.details = envelope.details;
+    this.requestId = envelope.requestId;
+  }
+}
+
+export class RpcRetryError extends R4bbitError {
+  constructor(public readonly attempts: RetryAttempt[]) {
+    super(
+      `Rpc message failed after ${attempts.length} attempt(s): ${attempts
+        .map(
+          ({ attempt, error }) =>
+            `#${attempt} ${error instanceof Error ? error.message : error}`
+        )
+        .join('; ')}`
+    );
+    this.name = 'RpcRetryError';
+  }
+
+  get lastError(): unknown {
+    return this.attempts[this.attempts.length - 1]?.error;
+  }
+}
+
+export class UnroutableMessageError extends R4bbitError {
+  constructor(
+    public readonly exchangeName: string,
+    public readonly routingKey: string,
+    public readonly requestId: string,
+    public readonly replyText?: string
+  ) {
+    super(
+      `Message ${requestId} to ${exchangeName}/${routingKey} was returned by the broker${
+        replyText ? ` (${replyText})` : ''
+      }, no queue is bound to it`
+    );
+    this.name = 'UnroutableMessageError';
+  }
+}
+
+export class MissingRespondersError extends R4bbitError {
+  constructor(
+    public readonly exchangeName: string,
+    public readonly routingKey: string,
+    public readonly missingResponders: string[],
+    // replies received before the timeout
+    public readonly replies: Record<string, unknown>[]
+  ) {
+    super(
+      `Multiple rpc message to ${exchangeName}/${routingKey} timed out without replies from: ${missingResponders.join(
+        ', '
+      )}`
+    );
+    this.name = 'MissingRespondersError';
+  }
+}
+
+export class QuorumNotReachedError extends R4bbitError {
+  constructor(
+    public readonly exchangeName: string,
+    public readonly routingKey: string,
+    public readonly quorum: number,
+    // every reply received before the replies ended
+    public readonly replies: Record<string, unknown>[]
+  ) {
+    super(
+      `Multiple rpc message to ${exchangeName}/${routingKey} ended without ${quorum} matching replies (received ${replies.length})`
+    );
+    this.name = 'QuorumNotReachedError';
+  }
+}
+
+export class CircuitOpenError extends R4bbitError {
+  constructor(
+    public readonly exchangeName: string,
+    public readonly routingKey: string,
+    // ms until the circuit lets a probe through
+    public readonly retryAfter: number
+  ) {
+    super(
+      `Circuit for ${exchangeName}/${routingKey} is open, retry after ${retryAfter}ms`
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class RateLimitError extends R4bbitError {
+  constructor(
+    // 'global' or the routing key whose limits were exceeded
+    public readonly scope: string,
+    public readonly reason: RateLimitReason
+  ) {
+    super(`Rate limit of ${scope} not acquired: ${reason}`);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class TopologyMismatchError extends R4bbitError {
+  constructor(
+    public readonly exchangeName: string,
+    public readonly queueName: string,
+    // reason given by the broker, e.g. inequivalent arg 'x-max-priority'
+    public readonly brokerMessage: string
+  ) {
+    super(
+      `Exchange ${exchangeName}${
+        queueName ? ` or queue ${queueName}` : ''
+      } already exists with other arguments, delete it or align the options: ${brokerMessage}`
+    );
+    this.name = 'TopologyMismatchError';
+  }
+}
@@ -0,0 +1,51 @@
+import { R4bbitError } from '../errors/errors';
+import { composeMiddlewares } from './middleware';
+
+describe('Middleware tests', () => {
+  it('should run the middlewares in order around the handler', async () => {
+    // given
+    const calls: string[] = [];
+    const run = composeMiddlewares<string[]>([
+      async (context, next) => {
+        context.push('first');
+        await next();
+        context.push('first after');
+      },
+      async (context, next) => {
+        context.push('second');
+        await next();
+      },
+    ]);
+
+    // when
+    await run(calls, (context) => context.push('handler'));
+
+    // then
+    expect(calls).toEqual(['first', 'second', 'handler', 'first after']);
+  });
+
+  it('should skip the handler when a middleware does not call next', async () => {
+    // given
+    const handler = jest.fn();
+    const run = composeMiddlewares([() => undefined, jest.fn()]);
+
+    // when
+    await run({}, handler);
+
+    // then
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should reject when next is called twice', async () => {
+    // given
+    const run = composeMiddlewares([
+      async (_context, next) => {
+        await next();
+        await next();
+      },
+    ]);
+
+    // when & then
+    await expect(run({}, jest.fn())).rejects.toThrow(R4bbitError);
+  });
+});
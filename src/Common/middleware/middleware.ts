@@ -0,0 +1,32 @@
+import { R4bbitError } from '../errors/errors';
+
+type MiddlewareFunction<Context> = (
+  context: Context,
+  next: () => Promise<void>
+) => Promise<void> | void;
+
+/**
+ * Chains middlewares in front of a handler, each one runs the rest of the chain
+ * by calling next. Not calling next skips the remaining middlewares and the handler
+ */
+export const composeMiddlewares =
+  <Context>(middlewares: MiddlewareFunction<Context>[]) =>
+  (context: Context, handler: (context: Context) => unknown): Promise<void> => {
+    let lastIndex = -1;
+
+    const dispatch = async (index: number): Promise<void> => {
+      if (index <= lastIndex) {
+        throw new R4bbitError('next() called multiple times by a middleware');
+      }
+      lastIndex = index;
+
+      if (index === middlewares.length) {
+        await handler(context);
+        return;
+      }
+
+      await middlewares[index](context, () => dispatch(index + 1));
+    };
+
+    return dispatch(0);
+  };
@@ -0,0 +1,101 @@
+import { RateLimitError } from '../errors/errors';
+import { RateLimiter } from './rateLimiter';
+
+describe('rate limiter tests', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should queue calls above maxInFlight until a slot is released', async () => {
+    // given
+    const limiter = new RateLimiter('test', { maxInFlight: 1 });
+    const release = await limiter.acquire();
+    const granted = jest.fn();
+
+    // when
+    limiter.acquire().then(granted);
+    await Promise.resolve();
+    const grantedBeforeRelease = granted.mock.calls.length;
+    release();
+    release();
+    await Promise.resolve();
+
+    // then
+    expect(grantedBeforeRelease).toBe(0);
+    expect(granted).toBeCalledTimes(1);
+  });
+
+  it('should refill tokens over time', async () => {
+    // given
+    const limiter = new RateLimiter('test', { ratePerSecond: 2, burst: 1 });
+    await limiter.acquire();
+    const granted = jest.fn();
+
+    // when
+    limiter.acquire().then(granted);
+    jest.advanceTimersByTime(499);
+    await Promise.resolve();
+    const grantedEarly = granted.mock.calls.length;
+    jest.advanceTimersByTime(1);
+    await Promise.resolve();
+
+    // then
+    expect(grantedEarly).toBe(0);
+    expect(granted).toBeCalledTimes(1);
+  });
+
+  it('should reject right away in reject mode', async () => {
+    // given
+    const limiter = new RateLimiter('test', {
+      maxInFlight: 1,
+      whenExceeded: 'reject',
+    });
+    await limiter.acquire();
+
+    // when & then
+    await expect(limiter.acquire()).rejects.toMatchObject({
+      scope: 'test',
+      reason: 'limit-exceeded',
+    });
+  });
+
+  it('should reject when the queue is full', async () => {
+    // given
+    const limiter = new RateLimiter('test', { maxInFlight: 1, maxQueued: 1 });
+    await limiter.acquire();
+    limiter.acquire();
+
+    // when & then
+    await expect(limiter.acquire()).rejects.toMatchObject({
+      reason: 'queue-full',
+    });
+  });
+
+  it('should give up waiting on timeout and abort', async () => {
+    // given
+    const limiter = new RateLimiter('test', { maxInFlight: 1 });
+    const release = await limiter.acquire();
+    const controller = new AbortController();
+    const granted = jest.fn();
+
+    // when
+    const timedOut = limiter.acquire({ timeout: 100 });
+    const aborted = limiter.acquire({ signal: controller.signal });
+    limiter.acquire().then(granted);
+    jest.advanceTimersByTime(100);
+    controller.abort();
+    release();
+    await Promise.resolve();
+
+    // then
+    await expect(timedOut).rejects.toEqual(
+      new RateLimitError('test', 'timeout')
+    );
+    await expect(aborted).rejects.toMatchObject({ reason: 'aborted' });
+    expect(granted).toBeCalledTimes(1);
+  });
+});
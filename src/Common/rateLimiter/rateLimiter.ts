@@ -0,0 +1,138 @@
+import { RateLimitError } from '../errors/errors';
+import {
+  LimitOptions,
+  RateLimitReason,
+  Release,
+  WaitOptions,
+} from './rateLimiter.type';
+
+type Waiter = {
+  grant: () => void;
+};
+
+/**
+ * Token bucket combined with a cap on in-flight calls,
+ * waiting calls are granted in FIFO order
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private inFlight = 0;
+  private queue: Waiter[] = [];
+  private refillTimeout?: ReturnType<typeof setTimeout>;
+
+  constructor(private scope: string, private options: LimitOptions) {
+    this.tokens = this.burst;
+  }
+
+  private get burst(): number {
+    return this.options.burst ?? this.options.ratePerSecond ?? Infinity;
+  }
+
+  public acquire({ signal, timeout }: WaitOptions = {}): Promise<Release> {
+    if (this.queue.length === 0 && this.hasCapacity()) {
+      return Promise.resolve(this.take());
+    }
+
+    const { whenExceeded = 'queue', maxQueued = Infinity } = this.options;
+    if (whenExceeded === 'reject') {
+      return Promise.reject(new RateLimitError(this.scope, 'limit-exceeded'));
+    }
+    if (this.queue.length >= maxQueued) {
+      return Promise.reject(new RateLimitError(this.scope, 'queue-full'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new RateLimitError(this.scope, 'aborted'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const cancel = (reason: RateLimitReason) => {
+        this.queue = this.queue.filter((queued) => queued !== waiter);
+        signal?.removeEventListener('abort', onAbort);
+        reject(new RateLimitError(this.scope, reason));
+      };
+      const onAbort = () => {
+        clearTimeout(waitTimeout);
+        cancel('aborted');
+      };
+      const waitTimeout =
+        timeout === undefined
+          ? undefined
+          : setTimeout(() => cancel('timeout'), timeout);
+      const waiter: Waiter = {
+        grant: () => {
+          clearTimeout(waitTimeout);
+          signal?.removeEventListener('abort', onAbort);
+          resolve(this.take());
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(waiter);
+      this.scheduleRefill();
+    });
+  }
+
+  private refill() {
+    const { ratePerSecond } = this.options;
+    if (!ratePerSecond) {
+      return;
+    }
+
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.burst,
+      this.tokens + ((now - this.lastRefill) * ratePerSecond) / 1000
+    );
+    this.lastRefill = now;
+  }
+
+  private hasCapacity(): boolean {
+    this.refill();
+    const { ratePerSecond, maxInFlight = Infinity } = this.options;
+
+    return (!ratePerSecond || this.tokens >= 1) && this.inFlight < maxInFlight;
+  }
+
+  private take(): Release {
+    if (this.options.ratePerSecond) {
+      this.tokens--;
+    }
+    this.inFlight++;
+
+    let isReleased = false;
+    return () => {
+      if (isReleased) {
+        return;
+      }
+      isReleased = true;
+      this.inFlight--;
+      this.drain();
+    };
+  }
+
+  private drain() {
+    while (this.queue.length > 0 && this.hasCapacity()) {
+      this.queue.shift()?.grant();
+    }
+    this.scheduleRefill();
+  }
+
+  // wakes the queue up once the next token is available, free slots wake it up on release
+  private scheduleRefill() {
+    const { ratePerSecond } = this.options;
+    if (
+      !ratePerSecond ||
+      this.queue.length === 0 ||
+      this.refillTimeout ||
+      this.tokens >= 1
+    ) {
+      return;
+    }
+
+    this.refillTimeout = setTimeout(() => {
+      this.refillTimeout = undefined;
+      this.drain();
+    }, Math.ceil(((1 - this.tokens) * 1000) / ratePerSecond));
+  }
+}
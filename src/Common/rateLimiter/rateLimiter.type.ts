@@ -0,0 +1,33 @@
+export type LimitOptions = {
+  // token bucket - calls per second and the number of calls allowed at once (defaults to ratePerSecond)
+  ratePerSecond?: number;
+  burst?: number;
+  // calls published and not settled yet
+  maxInFlight?: number;
+  // calls waiting for a token or a slot, unbounded by default
+  maxQueued?: number;
+  // 'queue' (default) waits for a token or a slot, 'reject' fails right away
+  whenExceeded?: 'queue' | 'reject';
+};
+
+export type ClientLimits = {
+  // shared by every call of the client
+  global?: LimitOptions;
+  // the same limits applied to every routing key separately
+  perRoutingKey?: LimitOptions;
+};
+
+export type RateLimitReason =
+  | 'limit-exceeded'
+  | 'queue-full'
+  | 'timeout'
+  | 'aborted';
+
+export type WaitOptions = {
+  signal?: AbortSignal;
+  // max time in ms spent waiting in the queue
+  timeout?: number;
+};
+
+// frees the in-flight slot, calling it more than once has no effect
+export type Release = () => void;
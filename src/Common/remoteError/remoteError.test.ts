@@ -0,0 +1,79 @@
+import { ConsumeMessage } from 'amqplib';
+import { RemoteRpcError } from '../errors/errors';
+import {
+  HEADER_REPLY_SIGNATURE,
+  HEADER_REPLY_STATUS,
+  HEADER_SEND_TYPE,
+} from '../types';
+import { extractRemoteError, toErrorEnvelope } from './remoteError';
+
+describe('remoteError tests', () => {
+  it('should convert an error into an envelope', () => {
+    // given
+    const error = Object.assign(new TypeError('Boom'), {
+      code: 'E_BOOM',
+      details: { field: 'id' },
+    });
+
+    // when
+    const envelope = toErrorEnvelope(error, 'req-1');
+
+    // then
+    expect(envelope).toEqual({
+      name: 'TypeError',
+      message: 'Boom',
+      code: 'E_BOOM',
+      details: { field: 'id' },
+      requestId: 'req-1',
+    });
+  });
+
+  it('should convert a thrown string into an envelope', () => {
+    // when
+    const envelope = toErrorEnvelope('Something went wrong');
+
+    // then
+    expect(envelope).toEqual({
+      name: 'Error',
+      message: 'Something went wrong',
+      requestId: undefined,
+    });
+  });
+
+  it('should build RemoteRpcError from an error reply', () => {
+    // given
+    const consumeMessage = {
+      content: Buffer.from(
+        JSON.stringify({ name: 'TypeError', message: 'Boom', code: 'E_BOOM' })
+      ),
+      properties: {
+        headers: {
+          [HEADER_SEND_TYPE]: 'json',
+          [HEADER_REPLY_STATUS]: 'error',
+          [HEADER_REPLY_SIGNATURE]: 'server-1',
+        },
+      },
+    } as unknown as ConsumeMessage;
+
+    // when
+    const error = extractRemoteError(consumeMessage);
+
+    // then
+    expect(error).toBeInstanceOf(RemoteRpcError);
+    expect(error?.message).toBe('Boom');
+    expect(error?.remoteName).toBe('TypeError');
+    expect(error?.code).toBe('E_BOOM');
+    expect(error?.signature).toBe('server-1');
+  });
+
+  it('should return undefined for a regular reply', () => {
+    // given
+    const consumeMessage = {
+      content: Buffer.from(JSON.stringify({ ok: true })),
+      properties: { headers: { [HEADER_SEND_TYPE]: 'json' } },
+    } as unknown as ConsumeMessage;
+
+    // when & then
+    expect(extractRemoteError(consumeMessage)).toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+import { ConsumeMessage } from 'amqplib';
+import { decodeMessage } from '../decodeMessage/decodeMessage';
+import { extractSignature } from '../extractSignature/extractSignature';
+import { RemoteRpcError } from '../errors/errors';
+import { isObject } from '../typeGuards/isObject';
+import { isString } from '../typeGuards/isString';
+import {
+  HEADER_REPLY_STATUS,
+  REPLY_STATUS_ERROR,
+  RpcErrorEnvelope,
+} from '../types';
+
+/**
+ * Converts whatever a handler threw (or passed to replyError) into
+ * a serializable envelope that is sent back to the caller
+ */
+export const toErrorEnvelope = (
+  error: unknown,
+  requestId?: string
+): RpcErrorEnvelope => {
+  if (!isObject(error)) {
+    return {
+      name: 'Error',
+      message: isString(error) ? error : String(error),
+      requestId,
+    };
+  }
+
+  return {
+    name: isString(error.name) ? error.name : 'Error',
+    message: isString(error.message) ? error.message : 'Unknown error',
+    ...(isString(error.code) ? { code: error.code } : {}),
+    ...(error.details !== undefined ? { details: error.details } : {}),
+    requestId,
+  };
+};
+
+export const isErrorReply = (consumeMessage: ConsumeMessage | null) =>
+  consumeMessage?.properties.headers[HEADER_REPLY_STATUS] ===
+  REPLY_STATUS_ERROR;
+
+/**
+ * @returns RemoteRpcError built from the reply, undefined if the reply is not an error
+ */
+export const extractRemoteError = (
+  consumeMessage: ConsumeMessage | null
+): RemoteRpcError | undefined => {
+  if (!isErrorReply(consumeMessage)) {
+    return undefined;
+  }
+
+  return new RemoteRpcError(
+    decodeMessage(consumeMessage) as RpcErrorEnvelope,
+    extractSignature(consumeMessage)
+  );
+};
@@ -0,0 +1,94 @@
+import { hashPayload, MemoryCacheStore, ResponseCache } from './responseCache';
+
+describe('Response cache tests', () => {
+  it('should hash payloads independently of the key order', () => {
+    // when
+    const first = hashPayload({ id: 1, filter: { a: 'x', b: [1, 2] } });
+    const second = hashPayload({ filter: { b: [1, 2], a: 'x' }, id: 1 });
+    const other = hashPayload({ id: 2, filter: { a: 'x', b: [1, 2] } });
+
+    // then
+    expect(first).toBe(second);
+    expect(first).not.toBe(other);
+  });
+
+  it('should evict the least recently used entry', () => {
+    // given
+    const store = new MemoryCacheStore(2);
+    const expiresAt = Date.now() + 60_000;
+    store.set('a', { value: 'a', expiresAt });
+    store.set('b', { value: 'b', expiresAt });
+
+    // when
+    store.get('a');
+    store.set('c', { value: 'c', expiresAt });
+
+    // then
+    expect(store.size).toBe(2);
+    expect(store.get('a')?.value).toBe('a');
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('c')?.value).toBe('c');
+  });
+
+  it('should expire entries after their ttl', async () => {
+    // given
+    jest.useFakeTimers();
+    const cache = new ResponseCache();
+    const key = cache.key({ id: 1 }, 'exchange', 'prices.get', {});
+
+    // when
+    await cache.set(key, 'price', { ttl: 1_000 });
+    const fresh = await cache.get(key);
+    jest.advanceTimersByTime(1_000);
+    const expired = await cache.get(key);
+
+    // then
+    expect(fresh?.value).toBe('price');
+    expect(expired).toBeUndefined();
+    jest.useRealTimers();
+  });
+
+  it('should let the max age of the server override the ttl', async () => {
+    // given
+    const cache = new ResponseCache();
+
+    // when
+    await cache.set('forbidden', 'value', { ttl: 60_000 }, 0);
+    await cache.set('longer', 'value', { ttl: 1_000 }, 120);
+
+    // then
+    expect(await cache.get('forbidden')).toBeUndefined();
+    expect((await cache.get('longer'))?.expiresAt).toBeGreaterThan(
+      Date.now() + 60_000
+    );
+  });
+
+  it('should build keys with the user key function', () => {
+    // given
+    const cache = new ResponseCache();
+
+    // when
+    const key = cache.key({ id: 7, locale: 'en' }, 'exchange', 'items.get', {
+      key: (message) => String((message as { id: number }).id),
+    });
+
+    // then
+    expect(key).toBe('exchange.items.get.7');
+  });
+
+  it('should build different keys for differently shaped responses', () => {
+    // given
+    const cache = new ResponseCache();
+
+    // when
+    const contentOnly = cache.key({ id: 7 }, 'exchange', 'items.get', {}, [
+      { content: true },
+    ]);
+    const withHeaders = cache.key({ id: 7 }, 'exchange', 'items.get', {}, [
+      { content: true, headers: true },
+    ]);
+
+    // then
+    expect(contentOnly).not.toBe(withHeaders);
+  });
+});
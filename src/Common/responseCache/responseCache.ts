@@ -0,0 +1,133 @@
+import { createHash } from 'crypto';
+import { isObject } from '../typeGuards/isObject';
+import {
+  CachedResponse,
+  ResponseCacheInitOptions,
+  ResponseCacheStore,
+  RpcCacheOptions,
+} from './responseCache.type';
+
+const DEFAULT_MAX_ENTRIES = 1_000;
+const DEFAULT_TTL = 60_000;
+
+// JSON with sorted object keys so equal payloads give the same hash
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (isObject(value)) {
+    if (typeof value.toJSON === 'function') {
+      return stableStringify(value.toJSON());
+    }
+
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+};
+
+export const hashPayload = (message: unknown): string =>
+  createHash('sha1').update(stableStringify(message)).digest('hex');
+
+/**
+ * Least recently used entries are evicted once maxEntries is exceeded,
+ * expired entries are removed when they are read
+ */
+export class MemoryCacheStore implements ResponseCacheStore {
+  // Map keeps the insertion order, the first key is the least recently used one
+  private entries = new Map<string, CachedResponse>();
+
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  public get(key: string): CachedResponse | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+
+    return entry;
+  }
+
+  public set(key: string, entry: CachedResponse): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Responses of idempotent rpc calls by route and payload
+ */
+export class ResponseCache {
+  private store: ResponseCacheStore;
+
+  constructor({ store, maxEntries }: ResponseCacheInitOptions = {}) {
+    this.store = store ?? new MemoryCacheStore(maxEntries);
+  }
+
+  /**
+   * @param variant - call options shaping the cached response, e.g. responseContains
+   */
+  public key(
+    message: unknown,
+    exchangeName: string,
+    routingKey: string,
+    { key }: RpcCacheOptions,
+    variant: unknown[] = []
+  ): string {
+    const route = variant.length
+      ? `${exchangeName}.${routingKey}.${hashPayload(variant)}`
+      : `${exchangeName}.${routingKey}`;
+
+    return `${route}.${key ? key(message) : hashPayload(message)}`;
+  }
+
+  public async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = await this.store.get(key);
+    // custom stores do not have to expire entries on their own
+    if (entry && entry.expiresAt <= Date.now()) {
+      await this.store.delete(key);
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  /**
+   * @param maxAge - seconds sent by the server, overrides the ttl of the call, 0 disables caching
+   */
+  public async set(
+    key: string,
+    value: unknown,
+    { ttl = DEFAULT_TTL }: RpcCacheOptions,
+    maxAge?: number
+  ): Promise<void> {
+    const expiresIn = maxAge !== undefined ? maxAge * 1000 : ttl;
+    if (!(expiresIn > 0)) {
+      return;
+    }
+
+    await this.store.set(key, { value, expiresAt: Date.now() + expiresIn });
+  }
+}
@@ -0,0 +1,28 @@
+export type CachedResponse = {
+  value: unknown;
+  // epoch ms after which the entry must not be used anymore
+  expiresAt: number;
+};
+
+// Storage of cached rpc responses, implement it to share the cache e.g. through redis
+export type ResponseCacheStore = {
+  get: (
+    key: string
+  ) => Promise<CachedResponse | undefined> | CachedResponse | undefined;
+  set: (key: string, entry: CachedResponse) => Promise<void> | void;
+  delete: (key: string) => Promise<void> | void;
+};
+
+export type ResponseCacheInitOptions = {
+  // defaults to an in-memory LRU store
+  store?: ResponseCacheStore;
+  // capacity of the default in-memory store
+  maxEntries?: number;
+};
+
+export type RpcCacheOptions = {
+  // time in ms a response is cached for, a max-age sent by the server takes precedence
+  ttl?: number;
+  // builds the cache key from the message, a stable hash of the message by default
+  key?: (message: unknown) => string;
+};
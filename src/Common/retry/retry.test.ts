@@ -0,0 +1,125 @@
+import {
+  RemoteRpcError,
+  RpcAbortedError,
+  RpcRetryError,
+  RpcTimeoutError,
+} from '../errors/errors';
+import { computeBackoff, retryWithBackoff } from './retry';
+
+describe('retry tests', () => {
+  const remoteError = new RemoteRpcError({ name: 'Error', message: 'Boom' });
+  const timeoutError = new RpcTimeoutError('exchange', 'routing.key', 1_000);
+
+  it('should grow the backoff exponentially up to maxDelay', () => {
+    // given
+    const options = {
+      maxAttempts: 5,
+      initialDelay: 100,
+      maxDelay: 300,
+      jitter: false,
+    };
+
+    // when
+    const delays = [1, 2, 3].map((attempt) => computeBackoff(attempt, options));
+
+    // then
+    expect(delays).toEqual([100, 200, 300]);
+  });
+
+  it('should keep the jittered backoff within the computed one', () => {
+    // when
+    const delay = computeBackoff(3, { maxAttempts: 5, initialDelay: 100 });
+
+    // then
+    expect(delay).toBeGreaterThanOrEqual(0);
+    expect(delay).toBeLessThanOrEqual(400);
+  });
+
+  it('should resolve once an attempt succeeds', async () => {
+    // given
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(timeoutError)
+      .mockResolvedValueOnce('response');
+
+    // when
+    const response = await retryWithBackoff(fn, {
+      maxAttempts: 3,
+      initialDelay: 1,
+    });
+
+    // then
+    expect(response).toBe('response');
+    expect(fn).toBeCalledTimes(2);
+  });
+
+  it('should list every failed attempt', async () => {
+    // given
+    const fn = jest.fn().mockRejectedValue(timeoutError);
+
+    // when
+    const error = await retryWithBackoff(fn, {
+      maxAttempts: 3,
+      initialDelay: 1,
+    }).catch((err) => err);
+
+    // then
+    expect(error).toBeInstanceOf(RpcRetryError);
+    expect((error as RpcRetryError).attempts).toEqual([
+      { attempt: 1, error: timeoutError },
+      { attempt: 2, error: timeoutError },
+      { attempt: 3, error: timeoutError },
+    ]);
+  });
+
+  it('should not retry remote errors by default', async () => {
+    // given
+    const fn = jest.fn().mockRejectedValue(remoteError);
+
+    // when
+    const error = await retryWithBackoff(fn, { maxAttempts: 3 }).catch(
+      (err) => err
+    );
+
+    // then
+    expect(fn).toBeCalledTimes(1);
+    expect((error as RpcRetryError).lastError).toBe(remoteError);
+  });
+
+  it('should retry remote errors when asked to', async () => {
+    // given
+    const fn = jest.fn().mockRejectedValue(remoteError);
+
+    // when
+    await retryWithBackoff(fn, {
+      maxAttempts: 2,
+      initialDelay: 1,
+      retryOn: ['remote-error'],
+    }).catch((err) => err);
+
+    // then
+    expect(fn).toBeCalledTimes(2);
+  });
+
+  it('should rethrow an abort without wrapping it', async () => {
+    // given
+    const abortError = new RpcAbortedError('exchange', 'key', 'id');
+    const fn = jest.fn().mockRejectedValue(abortError);
+
+    // when & then
+    await expect(retryWithBackoff(fn, { maxAttempts: 3 })).rejects.toBe(
+      abortError
+    );
+  });
+
+  it('should not retry failures other than timeouts by default', async () => {
+    // given
+    const fn = jest.fn().mockRejectedValue(new Error('Channel closed'));
+
+    // when
+    await retryWithBackoff(fn, { maxAttempts: 3 }).catch((err) => err);
+
+    // then
+    expect(fn).toBeCalledTimes(1);
+  });
+});
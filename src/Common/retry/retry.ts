@@ -0,0 +1,104 @@
+import {
+  RemoteRpcError,
+  RpcAbortedError,
+  RpcRetryError,
+  RpcTimeoutError,
+} from '../errors/errors';
+import { RetryAttempt, RetryOptions, RetryReason } from './retry.type';
+
+const DEFAULT_INITIAL_DELAY = 100;
+const DEFAULT_MAX_DELAY = 10_000;
+const DEFAULT_FACTOR = 2;
+
+/**
+ * @param attempt - number of the attempt that has just failed, starting from 1
+ * @returns delay in ms before the next attempt
+ */
+export const computeBackoff = (
+  attempt: number,
+  options: RetryOptions
+): number => {
+  const {
+    initialDelay = DEFAULT_INITIAL_DELAY,
+    maxDelay = DEFAULT_MAX_DELAY,
+    factor = DEFAULT_FACTOR,
+    jitter = true,
+  } = options;
+  const backoff = Math.min(maxDelay, initialDelay * factor ** (attempt - 1));
+
+  return jitter ? Math.round(Math.random() * backoff) : backoff;
+};
+
+export const getRetryReason = (error: unknown): RetryReason => {
+  if (error instanceof RpcTimeoutError) {
+    return 'timeout';
+  }
+
+  return error instanceof RemoteRpcError ? 'remote-error' : 'other';
+};
+
+const shouldRetry = (
+  error: unknown,
+  attempt: number,
+  options: RetryOptions
+): boolean => {
+  const { retryOn = ['timeout'] } = options;
+  return typeof retryOn === 'function'
+    ? retryOn(error, attempt)
+    : retryOn.includes(getRetryReason(error));
+};
+
+// Resolves early on abort, the next attempt is then rejected with RpcAbortedError
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs the given function until it succeeds, the failure is not retriable
+ * or maxAttempts is reached
+ *
+ * @param fn - a single attempt, receives the attempt number starting from 1
+ * @param onRetry - called before waiting for the next attempt
+ * @throws RpcRetryError listing every attempt and its failure,
+ *  RpcAbortedError as is when the caller aborted
+ */
+export const retryWithBackoff = async <T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions,
+  signal?: AbortSignal,
+  onRetry?: (failedAttempt: RetryAttempt, delay: number) => void
+): Promise<T> => {
+  const attempts: RetryAttempt[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error: unknown) {
+      if (error instanceof RpcAbortedError) {
+        throw error;
+      }
+      attempts.push({ attempt, error });
+
+      if (
+        attempt >= options.maxAttempts ||
+        !shouldRetry(error, attempt, options)
+      ) {
+        throw new RpcRetryError(attempts);
+      }
+
+      const delay = computeBackoff(attempt, options);
+      onRetry && onRetry({ attempt, error }, delay);
+
+      await sleep(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,21 @@
+// 'other' - any failure that is neither a timeout nor an error replied by the server,
+// e.g. UnroutableMessageError or a connection error
+export type RetryReason = 'timeout' | 'remote-error' | 'other';
+
+export type RetryOptions = {
+  // total number of attempts, including the first one
+  maxAttempts: number;
+  // delay before the second attempt, doubled (see factor) for every next one
+  initialDelay?: number;
+  maxDelay?: number;
+  factor?: number;
+  // randomizes the delay between 0 and the computed backoff (full jitter)
+  jitter?: boolean;
+  // which failures are retried, by default only timeouts
+  retryOn?: RetryReason[] | ((error: unknown, attempt: number) => boolean);
+};
+
+export type RetryAttempt = {
+  attempt: number;
+  error: unknown;
+};
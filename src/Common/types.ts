@@ -16,7 +16,60 @@ export type ServerResponseContains = Omit<ResponseContains, 'signature'>;
 
 export type MessageType = 'json' | 'string' | 'object';
 
+// 'queue' - replies go to an exclusive reply queue asserted by the client,
+// 'direct-reply-to' - replies go to the amq.rabbitmq.reply-to pseudo-queue
+export type ReplyMode = 'queue' | 'direct-reply-to';
+
 export const HEADER_SEND_TYPE = 'x-send-type';
 export const HEADER_RECEIVE_TYPE = 'x-receive-type';
 export const HEADER_REPLY_SIGNATURE = 'x-reply-signature';
 export const HEADER_REQUEST_ID = 'x-request-id';
+
+// Exchange used to notify rpc servers that a caller has given up on a request
+export const CANCEL_EXCHANGE_NAME = 'r4bbit.rpc.cancel';
+
+// Set by the server to 'error' when the reply content is an RpcErrorEnvelope
+export const HEADER_REPLY_STATUS = 'x-reply-status';
+export const REPLY_STATUS_ERROR = 'error';
+
+export type RpcErrorEnvelope = {
+  name: string;
+  message: string;
+  code?: string;
+  details?: unknown;
+  requestId?: string;
+};
+
+// Streaming rpc replies - position of the chunk in the stream and end of stream marker
+export const HEADER_STREAM_SEQ = 'x-stream-seq';
+export const HEADER_STREAM_END = 'x-stream-end';
+
+// Set on mandatory messages to match a message returned by the broker with its publish
+export const HEADER_PUBLISH_ID = 'x-publish-id';
+
+// Same for every retry of one rpc call, lets servers dedupe repeated requests
+export const HEADER_IDEMPOTENCY_KEY = 'x-idempotency-key';
+
+// RabbitMQ pseudo-queue for direct reply-to, the broker turns it into a
+// per-channel 'amq.rabbitmq.reply-to.<token>' replyTo which is reachable only via the default exchange
+export const DIRECT_REPLY_TO_QUEUE = 'amq.rabbitmq.reply-to';
+
+// Wait queues of delayed messages, see ConnectionSet.assertDelayQueue
+export const DELAY_QUEUE_PREFIX = 'r4bbit.delay';
+
+// Seconds the caller may cache the rpc reply for, set through the options of Reply
+export const HEADER_CACHE_MAX_AGE = 'x-cache-max-age';
+
+// Epoch ms after which the caller of an rpc request does not wait for the reply anymore
+export const HEADER_DEADLINE = 'x-deadline';
+
+// Failed messages of routes with the retry option, see ServerRetryOptions
+// number of the attempt the message is delivered for, starting from 1
+export const HEADER_ATTEMPT = 'x-attempt';
+// where the message was published to before it entered the retry queues
+export const HEADER_ORIGINAL_EXCHANGE = 'x-original-exchange';
+export const HEADER_ORIGINAL_ROUTING_KEY = 'x-original-routing-key';
+// failure of the latest attempt
+export const HEADER_ERROR_NAME = 'x-error-name';
+export const HEADER_ERROR_MESSAGE = 'x-error-message';
+export const HEADER_FAILED_AT = 'x-failed-at';
@@ -1,6 +1,7 @@
 import { ConnectionUrl, Options } from 'amqp-connection-manager';
 import { rabbitUriSchema } from './schema/url.schema';
 import { logger } from '../Common/logger/logger';
+import { InvalidUriError } from '../Common/errors/errors';
 
 const isString = (value: unknown): value is string => {
   return typeof value === 'string';
@@ -48,7 +49,8 @@ const getUrl = (connectionUrl: ConnectionUrl) => {
     return connectionObjectToUrl(connectionUrl);
   }
 
-  throw new Error(
+  throw new InvalidUriError(
+    [],
     'connectionUrls are not of type ConnectionUrl | ConnectionUrl[]'
   );
 };
@@ -73,10 +75,9 @@ export const validateUri = async (
   }
 
   if (invalidUrls.length > 0) {
-    const errorMsg =
-      'One or more RabbitMQ URIs are not valid -> ' + invalidUrls.join(', ');
+    const invalidUriError = new InvalidUriError(invalidUrls);
 
-    logger.error(errorMsg);
-    throw new Error(errorMsg);
+    logger.error(invalidUriError.message);
+    throw invalidUriError;
   }
 };
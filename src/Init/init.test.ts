@@ -14,8 +14,22 @@ jest.mock('amqp-connection-manager', () => ({
 
 import { initRabbit } from './init';
 import { rabbitUriSchema } from './schema/url.schema';
+import { ConnectionError, InvalidUriError } from '../Common/errors/errors';
+import { setupR4bbit } from '../Common/setupRabbit/setupRabbit';
 
 describe('init function tests', () => {
+  beforeEach(() => {
+    setupR4bbit({
+      logger: {
+        engine: {
+          info: (str: string) => str,
+          debug: (str: string) => str,
+          error: (str: string) => str,
+        },
+      },
+    });
+  });
+
   it('should create a connection and a channel', async () => {
     // given
     const connectionUrl = 'amqp://localhost';
@@ -55,4 +69,30 @@ describe('init function tests', () => {
       expect(() => rabbitUriSchema.parse(uri)).toThrowError(ZodError);
     });
   });
+
+  it('should throw InvalidUriError listing the invalid uris', async () => {
+    // when
+    const error = await initRabbit(['amqp://localhost', 'amqp://:10000']).catch(
+      (err) => err
+    );
+
+    // then
+    expect(error).toBeInstanceOf(InvalidUriError);
+    expect(error.invalidUris).toEqual(['amqp://:10000']);
+  });
+
+  it('should throw ConnectionError when the connection fails', async () => {
+    // given
+    const cause = new Error('ECONNREFUSED');
+    mockConnect.mockImplementationOnce(() => {
+      throw cause;
+    });
+
+    // when
+    const error = await initRabbit('amqp://localhost').catch((err) => err);
+
+    // then
+    expect(error).toBeInstanceOf(ConnectionError);
+    expect(error.cause).toBe(cause);
+  });
 });
@@ -4,6 +4,7 @@ import { InitRabbitOptions } from './init.type';
 import { listenSignals } from '../Common/signals/signal';
 import { logger } from '../Common/logger/logger';
 import { triggerConsoleWarnWrapper } from '../Common/consoleWarnWrapper/consoleWarnWrapper';
+import { ConnectionError } from '../Common/errors/errors';
 
 triggerConsoleWarnWrapper();
 
@@ -23,8 +24,8 @@ export const initRabbit = async (
 
     return channelWrapper;
   } catch (error: unknown) {
-    const errorMsg = `Error while connecting to RabbitMQ: ${error}`;
-    logger.error(errorMsg);
-    throw new Error(errorMsg);
+    const connectionError = new ConnectionError(error);
+    logger.error(connectionError.message);
+    throw connectionError;
   }
 };
@@ -5,12 +5,16 @@ const channelWrapper = {
   consume: consumeMock,
   publish: jest.fn(),
   ack: jest.fn(),
+  nack: jest.fn(),
+  get: jest.fn(),
+  assertQueue: jest.fn(),
 };
 const assertMock = jest.fn();
 
 jest.mock('../Common/cache/cache', () => ({
   ConnectionSet: {
     assert: assertMock,
+    assertRetryQueues: jest.fn(),
   },
 }));
 const initRabbitMock = jest.fn().mockReturnValueOnce(channelWrapper);
@@ -18,9 +22,17 @@ jest.mock('../Init/init', () => ({
   initRabbit: initRabbitMock,
 }));
 
+import { z } from 'zod';
 import { setupR4bbit } from '../Common/setupRabbit/setupRabbit';
-import { getServer } from './server';
-import { AckHandler, ServerOptions, Handler } from './server.type';
+import { defineContract } from '../Common/contract/contract';
+import { getServer, Server } from './server';
+import {
+  AckHandler,
+  AckObj,
+  ServerOptions,
+  Handler,
+  RpcContext,
+} from './server.type';
 
 describe('Server tests', () => {
   const connectionUrl = 'fake-connection-url';
@@ -82,7 +94,29 @@ describe('Server tests', () => {
       exchangeName,
       queueName,
       routingKey,
-      false
+      false,
+      {}
+    );
+  });
+
+  it('should assert a priority queue when the route declares maxPriority', async () => {
+    // given
+    const server = await getServer(connectionUrl);
+
+    // when
+    await server.registerRoute(
+      { queueName, routingKey, exchangeName, maxPriority: 10 },
+      jest.fn()
+    );
+
+    // then
+    expect(assertMock).toBeCalledWith(
+      channelWrapper,
+      exchangeName,
+      queueName,
+      routingKey,
+      false,
+      { arguments: { 'x-max-priority': 10 } }
     );
   });
 
@@ -125,6 +159,104 @@ describe('Server tests', () => {
     expect(handlerSpy).toHaveBeenCalled();
   });
 
+  it('should move a nacked message to the retry queue', async () => {
+    // given
+    const options: ServerOptions = { retry: { maxAttempts: 3 } };
+    const handlerFunc: AckHandler =
+      ({ nack }) =>
+      () =>
+        nack();
+
+    consumeMock.mockReset();
+    consumeMock.mockImplementation((queueName, handler) =>
+      handler({
+        content: Buffer.from('{}'),
+        fields: { exchange: exchangeName, routingKey },
+        properties: { headers: {} },
+      })
+    );
+
+    // when
+    await serverFactory(options, handlerFunc);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // then
+    expect(channelWrapper.publish).toHaveBeenCalledWith(
+      '',
+      'test-queue.retry.1000',
+      expect.any(Buffer),
+      expect.objectContaining({
+        headers: expect.objectContaining({ 'x-attempt': 2 }),
+      })
+    );
+    expect(channelWrapper.ack).toHaveBeenCalledTimes(1);
+    expect(channelWrapper.nack).not.toHaveBeenCalled();
+  });
+
+  it('should not retry a message the handler acked before throwing', async () => {
+    // given
+    const options: ServerOptions = { retry: { maxAttempts: 3 } };
+    const handlerFunc: AckHandler =
+      ({ ack }) =>
+      () => {
+        ack();
+        throw new Error('Failed after processing');
+      };
+
+    consumeMock.mockReset();
+    consumeMock.mockImplementation((queueName, handler) =>
+      handler({
+        content: Buffer.from('{}'),
+        fields: { exchange: exchangeName, routingKey },
+        properties: { headers: {} },
+      })
+    );
+
+    // when
+    await serverFactory(options, handlerFunc);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // then
+    expect(channelWrapper.ack).toHaveBeenCalledTimes(1);
+    expect(channelWrapper.publish).not.toHaveBeenCalled();
+    expect(channelWrapper.nack).not.toHaveBeenCalled();
+  });
+
+  it('should dead-letter a message failing on its last attempt', async () => {
+    // given
+    const options: ServerOptions = { retry: { maxAttempts: 2 } };
+    const handlerFunc: AckHandler = () => () => {
+      throw new Error('Boom');
+    };
+
+    consumeMock.mockReset();
+    consumeMock.mockImplementation((queueName, handler) =>
+      handler({
+        content: Buffer.from('{}'),
+        fields: { exchange: '', routingKey: queueName },
+        properties: { headers: { 'x-attempt': 2 } },
+      })
+    );
+
+    // when
+    await serverFactory(options, handlerFunc);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // then
+    expect(channelWrapper.publish).toHaveBeenCalledWith(
+      '',
+      'test-queue.dlq',
+      expect.any(Buffer),
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'x-attempt': 2,
+          'x-error-message': 'Boom',
+        }),
+      })
+    );
+    expect(channelWrapper.ack).toHaveBeenCalledTimes(1);
+  });
+
   // it('should throw an error if the message is null', () => {});
 
   // if message null
@@ -133,3 +265,769 @@ describe('Server tests', () => {
   // if in options responseContains => prepareResponse
   // if preparedResponse pass to the handlerFunc
 });
+
+describe('Server contract tests', () => {
+  const connectionUrl = 'fake-connection-url';
+  const contract = defineContract({
+    exchangeName: 'test-exchange',
+    routingKey: 'users.get',
+    requestSchema: z.object({ id: z.string() }),
+    responseSchema: z.object({ name: z.string() }),
+  });
+
+  const consumedMessage = (
+    content: unknown,
+    replyTo = 'reply-queue',
+    headers: Record<string, unknown> = {}
+  ) => ({
+    content: Buffer.from(JSON.stringify(content)),
+    properties: {
+      correlationId: 'test',
+      replyTo,
+      headers: { 'x-send-type': 'json', 'x-receive-type': 'json', ...headers },
+    },
+  });
+
+  const implementRoute = async (
+    content: unknown,
+    handler: jest.Mock,
+    replyTo?: string,
+    headers?: Record<string, unknown>
+  ) => {
+    let pending: Promise<void> | undefined;
+    consumeMock.mockReset();
+    consumeMock.mockImplementation((queueName, onMessage) => {
+      if (queueName === 'users-queue') {
+        pending = onMessage(consumedMessage(content, replyTo, headers));
+      }
+    });
+
+    const server = await getServer(connectionUrl);
+    await server.implement(contract, 'users-queue', handler);
+    await pending;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setupR4bbit({
+      logger: {
+        engine: {
+          info: (str: string) => str,
+          debug: (str: string) => str,
+          error: (str: string) => str,
+        },
+      },
+    });
+  });
+
+  it('should pass a valid request to the handler and reply', async () => {
+    // given
+    const handler = jest.fn().mockResolvedValue({ name: 'Bugs' });
+
+    // when
+    await implementRoute({ id: '1' }, handler);
+
+    // then
+    expect(handler).toHaveBeenCalledWith(
+      { id: '1' },
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+    expect(channelWrapper.publish).toHaveBeenCalledWith(
+      'test-exchange',
+      'reply-queue',
+      JSON.stringify({ name: 'Bugs' }),
+      expect.objectContaining({ correlationId: 'test' })
+    );
+  });
+
+  it('should reply through the default exchange for direct reply-to', async () => {
+    // given
+    const handler = jest.fn().mockResolvedValue({ name: 'Bugs' });
+    const replyTo = 'amq.rabbitmq.reply-to.g1hkABc';
+
+    // when
+    await implementRoute({ id: '1' }, handler, replyTo);
+
+    // then
+    expect(channelWrapper.publish).toHaveBeenCalledWith(
+      '',
+      replyTo,
+      JSON.stringify({ name: 'Bugs' }),
+      expect.objectContaining({ correlationId: 'test' })
+    );
+  });
+
+  it('should drop a request whose deadline has passed', async () => {
+    // given
+    const handler = jest.fn();
+
+    // when
+    await implementRoute({ id: '1' }, handler, undefined, {
+      'x-deadline': Date.now() - 1_000,
+    });
+
+    // then
+    expect(handler).not.toHaveBeenCalled();
+    expect(channelWrapper.publish).not.toHaveBeenCalled();
+    expect(channelWrapper.ack).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give the handler the time left until the deadline', async () => {
+    // given
+    let remainingTime: number | undefined;
+    const handler = jest
+      .fn()
+      .mockImplementation(async (payload, context: RpcContext) => {
+        remainingTime = context.remainingTime();
+        return { name: 'Bugs' };
+      });
+
+    // when
+    await implementRoute({ id: '1' }, handler, undefined, {
+      'x-deadline': Date.now() + 5_000,
+    });
+
+    // then
+    expect(remainingTime).toBeGreaterThan(4_000);
+    expect(remainingTime).toBeLessThanOrEqual(5_000);
+  });
+
+  it('should reject an invalid request before reaching the handler', async () => {
+    // given
+    const handler = jest.fn();
+
+    // when
+    await implementRoute({ id: 1 }, handler);
+
+    // then
+    expect(handler).not.toHaveBeenCalled();
+    expect(channelWrapper.publish).toHaveBeenCalledWith(
+      'test-exchange',
+      'reply-queue',
+      expect.stringContaining('ContractValidationError'),
+      expect.objectContaining({
+        headers: expect.objectContaining({ 'x-reply-status': 'error' }),
+      })
+    );
+  });
+
+  it('should reply with an error envelope when the handler throws', async () => {
+    // given
+    const handler = jest
+      .fn()
+      .mockRejectedValue(
+        Object.assign(new Error('User not found'), { code: 'NOT_FOUND' })
+      );
+
+    // when
+    await implementRoute({ id: '1' }, handler);
+
+    // then
+    const [, , content, publishOptions] = channelWrapper.publish.mock.calls[0];
+    expect(JSON.parse(content)).toEqual({
+      name: 'Error',
+      message: 'User not found',
+      code: 'NOT_FOUND',
+      requestId: expect.any(String),
+    });
+    expect(publishOptions.headers['x-reply-status']).toBe('error');
+    expect(channelWrapper.ack).toHaveBeenCalledTimes(1);
+  });
+
+  it('should abort the handler signal when the client cancels', async () => {
+    // given
+    let cancel: ((msg: unknown) => void) | undefined;
+    let onRequest: ((msg: unknown) => Promise<void>) | undefined;
+    consumeMock.mockReset();
+    consumeMock.mockImplementation((queueName: string, onMessage) => {
+      if (queueName.startsWith('cancel.')) {
+        cancel = onMessage;
+      } else {
+        onRequest = onMessage;
+      }
+    });
+
+    let handlerSignal: AbortSignal | undefined;
+    const handler = jest.fn().mockImplementation(
+      (payload, { signal }: { signal: AbortSignal }) =>
+        new Promise((resolve) => {
+          handlerSignal = signal;
+          signal.addEventListener('abort', () => resolve({ name: 'late' }));
+        })
+    );
+
+    initRabbitMock.mockReturnValueOnce(channelWrapper);
+    const server = new Server();
+    await server.init(connectionUrl);
+    await server.implement(contract, 'users-queue', handler);
+
+    // when
+    const pending = onRequest?.(consumedMessage({ id: '1' }));
+    cancel?.({
+      fields: { routingKey: 'users.get' },
+      properties: { correlationId: 'test', headers: {} },
+    });
+    await pending;
+
+    // then
+    expect(handlerSignal?.aborted).toBe(true);
+    expect(channelWrapper.publish).not.toHaveBeenCalled();
+    expect(channelWrapper.ack).toHaveBeenCalled();
+  });
+
+  it('should publish stream chunks with sequence numbers', async () => {
+    // given
+    let onRequest: ((msg: unknown) => Promise<void>) | undefined;
+    consumeMock.mockReset();
+    consumeMock.mockImplementation((queueName: string, onMessage) => {
+      if (queueName === 'search-queue') {
+        onRequest = onMessage;
+      }
+    });
+
+    const server = await getServer(connectionUrl);
+    await server.registerRPCStreamRoute(
+      {
+        exchangeName: 'test-exchange',
+        routingKey: 'search',
+        queueName: 'search-queue',
+      },
+      (stream) => async () => {
+        await stream.write({ page: 1 });
+        await stream.write({ page: 2 });
+        await stream.end();
+      }
+    );
+
+    // when
+    await onRequest?.(consumedMessage({ query: 'rabbit' }));
+
+    // then
+    const headers = channelWrapper.publish.mock.calls.map(
+      ([, , , publishOptions]) => publishOptions.headers
+    );
+    expect(headers).toEqual([
+      expect.objectContaining({ 'x-stream-seq': 0 }),
+      expect.objectContaining({ 'x-stream-seq': 1 }),
+      expect.objectContaining({ 'x-stream-seq': 2, 'x-stream-end': true }),
+    ]);
+    expect(channelWrapper.ack).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry a failed rpc request before replying with the error', async () => {
+    // given
+    let onRequest: ((msg: unknown) => Promise<void>) | undefined;
+    consumeMock.mockReset();
+    consumeMock.mockImplementation((queueName: string, onMessage) => {
+      if (queueName === 'stock-queue') {
+        onRequest = onMessage;
+      }
+    });
+
+    const server = await getServer(connectionUrl);
+    await server.registerRPCRoute(
+      {
+        exchangeName: 'test-exchange',
+        routingKey: 'stock.get',
+        queueName: 'stock-queue',
+      },
+      () => async () => {
+        throw new Error('Warehouse unavailable');
+      },
+      { retry: { maxAttempts: 2, delays: [500] } }
+    );
+
+    // when
+    await onRequest?.({
+      ...consumedMessage({ id: '1' }),
+      fields: { exchange: 'test-exchange', routingKey: 'stock.get' },
+    });
+
+    // then
+    expect(channelWrapper.publish).toHaveBeenCalledTimes(1);
+    expect(channelWrapper.publish).toHaveBeenCalledWith(
+      '',
+      'stock-queue.retry.500',
+      expect.any(Buffer),
+      expect.objectContaining({
+        correlationId: 'test',
+        replyTo: 'reply-queue',
+        headers: expect.objectContaining({ 'x-attempt': 2 }),
+      })
+    );
+    expect(channelWrapper.ack).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send the max age of a cacheable reply', async () => {
+    // given
+    let onRequest: ((msg: unknown) => Promise<void>) | undefined;
+    consumeMock.mockReset();
+    consumeMock.mockImplementation((queueName: string, onMessage) => {
+      if (queueName === 'prices-queue') {
+        onRequest = onMessage;
+      }
+    });
+
+    const server = await getServer(connectionUrl);
+    await server.registerRPCRoute(
+      {
+        exchangeName: 'test-exchange',
+        routingKey: 'prices.get',
+        queueName: 'prices-queue',
+      },
+      (reply) => async () => {
+        await reply({ price: 10 }, { maxAge: 300 });
+      }
+    );
+
+    // when
+    await onRequest?.(consumedMessage({ id: '1' }));
+
+    // then
+    const [, , , publishOptions] = channelWrapper.publish.mock.calls[0];
+    expect(publishOptions.headers['x-cache-max-age']).toBe(300);
+  });
+});
+
+describe('Server dead letter tests', () => {
+  const deadLetter = (id: string) => ({
+    content: Buffer.from(JSON.stringify({ id })),
+    fields: { exchange: '', routingKey: 'orders-queue.dlq' },
+    properties: {
+      headers: {
+        'x-send-type': 'json',
+        'x-attempt': 3,
+        'x-original-exchange': 'orders',
+        'x-original-routing-key': 'orders.created',
+        'x-error-name': 'Error',
+        'x-error-message': 'Database unavailable',
+      },
+    },
+  });
+
+  const createServer = async () => {
+    initRabbitMock.mockReturnValueOnce(channelWrapper);
+    const server = new Server();
+    await server.init('fake-connection-url');
+    return server;
+  };
+
+  beforeEach(() => {
+    setupR4bbit({
+      logger: {
+        engine: {
+          info: (str: string) => str,
+          debug: (str: string) => str,
+          error: (str: string) => str,
+        },
+      },
+    });
+  });
+
+  it('should list dead letters and leave them in the queue', async () => {
+    // given
+    const messages = [deadLetter('1'), deadLetter('2')];
+    channelWrapper.get
+      .mockResolvedValueOnce(messages[0])
+      .mockResolvedValueOnce(messages[1])
+      .mockResolvedValueOnce(false);
+    const server = await createServer();
+
+    // when
+    const deadLetters = await server.listDeadLetters('orders-queue');
+
+    // then
+    expect(channelWrapper.get).toHaveBeenCalledWith('orders-queue.dlq');
+    expect(deadLetters).toEqual([
+      expect.objectContaining({
+        content: { id: '1' },
+        exchangeName: 'orders',
+        routingKey: 'orders.created',
+        attempts: 3,
+        error: { name: 'Error', message: 'Database unavailable' },
+      }),
+      expect.objectContaining({ content: { id: '2' } }),
+    ]);
+    expect(channelWrapper.nack).toHaveBeenCalledWith(messages[0], false, true);
+    expect(channelWrapper.nack).toHaveBeenCalledWith(messages[1], false, true);
+    expect(channelWrapper.ack).not.toHaveBeenCalled();
+  });
+
+  it('should replay the selected dead letters with a transformed payload', async () => {
+    // given
+    const messages = [deadLetter('1'), deadLetter('2')];
+    channelWrapper.get
+      .mockResolvedValueOnce(messages[0])
+      .mockResolvedValueOnce(messages[1])
+      .mockResolvedValueOnce(false);
+    const server = await createServer();
+
+    // when
+    const result = await server.replayDeadLetters('orders-queue', {
+      filter: ({ content }) => (content as { id: string }).id === '2',
+      transform: (content) => ({ ...(content as object), fixed: true }),
+    });
+
+    // then
+    expect(result).toEqual({ replayed: 1, skipped: 1, failed: [] });
+    expect(channelWrapper.publish).toHaveBeenCalledTimes(1);
+    const [exchange, routingKey, content, { headers }] =
+      channelWrapper.publish.mock.calls[0];
+    expect([exchange, routingKey]).toEqual(['orders', 'orders.created']);
+    expect(JSON.parse(content)).toEqual({ id: '2', fixed: true });
+    expect(headers).toEqual({ 'x-send-type': 'json' });
+    expect(channelWrapper.ack).toHaveBeenCalledWith(messages[1]);
+    expect(channelWrapper.nack).toHaveBeenCalledWith(messages[0], false, true);
+  });
+});
+
+describe('Server middleware tests', () => {
+  const connection = {
+    exchangeName: 'orders',
+    queueName: 'orders-queue',
+    routingKey: 'orders.*',
+  };
+
+  const consumedMessage = (content: unknown) => ({
+    content: Buffer.from(JSON.stringify(content)),
+    fields: { exchange: 'orders', routingKey: 'orders.created' },
+    properties: {
+      correlationId: 'test',
+      replyTo: 'reply-queue',
+      headers: {
+        'x-send-type': 'json',
+        'x-receive-type': 'json',
+        'x-request-id': 'req-1',
+        'x-tenant': 'acme',
+      },
+    },
+  });
+
+  const createServer = async (content: unknown) => {
+    let pending: Promise<void> | undefined;
+    consumeMock.mockReset();
+    consumeMock.mockImplementation((queueName, onMessage) => {
+      if (queueName === connection.queueName) {
+        pending = onMessage(consumedMessage(content));
+      }
+    });
+    initRabbitMock.mockReturnValueOnce(channelWrapper);
+    const server = new Server();
+    await server.init('fake-connection-url');
+
+    return { server, consumed: () => pending };
+  };
+
+  beforeEach(() => {
+    setupR4bbit({
+      logger: {
+        engine: {
+          info: (str: string) => str,
+          debug: (str: string) => str,
+          error: (str: string) => str,
+        },
+      },
+    });
+  });
+
+  it('should run server and route middlewares around the handler', async () => {
+    // given
+    const calls: string[] = [];
+    const { server, consumed } = await createServer({ id: '1' });
+    server.use(async (context, next) => {
+      calls.push(`global ${context.routingKey} ${context.requestId}`);
+      try {
+        await next();
+      } finally {
+        calls.push('global after');
+      }
+    });
+    const handler = jest.fn(() => {
+      calls.push('handler');
+    });
+
+    // when
+    await server.registerRoute(connection, () => handler, {
+      middlewares: [
+        (context, next) => {
+          calls.push(`route ${context.headers['x-tenant']}`);
+          context.message = { content: { id: '1', tenant: 'acme' } };
+          return next();
+        },
+      ],
+    });
+    await consumed();
+
+    // then
+    expect(calls).toEqual([
+      'global orders.created req-1',
+      'route acme',
+      'handler',
+      'global after',
+    ]);
+    expect(handler).toHaveBeenCalledWith({
+      content: { id: '1', tenant: 'acme' },
+    });
+  });
+
+  it('should skip the handler when a middleware nacks', async () => {
+    // given
+    const { server, consumed } = await createServer({ id: '1' });
+    const handler = jest.fn();
+
+    // when
+    await server.registerRoute(connection, () => handler, {
+      middlewares: [({ nack }) => nack?.()],
+    });
+    await consumed();
+
+    // then
+    expect(handler).not.toHaveBeenCalled();
+    expect(channelWrapper.nack).toHaveBeenCalledWith(
+      expect.objectContaining({ fields: consumedMessage({}).fields })
+    );
+  });
+
+  it('should nack the message without requeue when a middleware of a route throws', async () => {
+    // given
+    const { server, consumed } = await createServer({ id: '1' });
+    const handler = jest.fn();
+    server.use(() => {
+      throw new Error('Unauthorized');
+    });
+
+    // when
+    await server.registerRoute(connection, () => handler);
+    await consumed();
+
+    // then
+    expect(handler).not.toHaveBeenCalled();
+    expect(channelWrapper.nack).toHaveBeenCalledTimes(1);
+    expect(channelWrapper.nack).toHaveBeenCalledWith(
+      expect.anything(),
+      false,
+      false
+    );
+    expect(channelWrapper.ack).not.toHaveBeenCalled();
+  });
+
+  it('should not requeue the message of a rejected plain handler', async () => {
+    // given
+    const { server, consumed } = await createServer({ id: '1' });
+
+    // when
+    await server.registerRoute(connection, () => async () => {
+      throw new Error('Database unavailable');
+    });
+    await consumed();
+
+    // then
+    expect(channelWrapper.nack).toHaveBeenCalledTimes(1);
+    expect(channelWrapper.nack).toHaveBeenCalledWith(
+      expect.anything(),
+      false,
+      false
+    );
+  });
+
+  it('should not nack a message its plain handler acked before throwing', async () => {
+    // given
+    const { server, consumed } = await createServer({ id: '1' });
+
+    // when
+    await server.registerRoute(connection, ({ ack }: AckObj) => () => {
+      ack();
+      throw new Error('Audit log unavailable');
+    });
+    await consumed();
+
+    // then
+    expect(channelWrapper.ack).toHaveBeenCalledTimes(1);
+    expect(channelWrapper.nack).not.toHaveBeenCalled();
+  });
+
+  it('should reply from a middleware without calling the rpc handler', async () => {
+    // given
+    const { server, consumed } = await createServer({ id: '1' });
+    const handler = jest.fn();
+    server.use(({ headers, reply }, next) =>
+      headers['x-tenant'] === 'acme' ? reply?.({ cached: true }) : next()
+    );
+
+    // when
+    await server.registerRPCRoute(connection, () => handler);
+    await consumed();
+
+    // then
+    expect(handler).not.toHaveBeenCalled();
+    expect(channelWrapper.publish).toHaveBeenCalledWith(
+      'orders',
+      'reply-queue',
+      JSON.stringify({ cached: true }),
+      expect.objectContaining({ correlationId: 'test' })
+    );
+  });
+
+  it('should reply with an error when a middleware throws', async () => {
+    // given
+    const { server, consumed } = await createServer({ id: '1' });
+    const handler = jest.fn();
+
+    // when
+    await server.registerRPCRoute(connection, () => handler, {
+      middlewares: [
+        () => {
+          throw new Error('Unauthorized');
+        },
+      ],
+    });
+    await consumed();
+
+    // then
+    expect(handler).not.toHaveBeenCalled();
+    const [, , content, { headers }] = channelWrapper.publish.mock.calls[0];
+    expect(JSON.parse(content)).toEqual(
+      expect.objectContaining({ message: 'Unauthorized' })
+    );
+    expect(headers).toEqual(
+      expect.objectContaining({ 'x-reply-status': 'error' })
+    );
+  });
+});
+
+describe('Server concurrency tests', () => {
+  const connection = {
+    exchangeName: 'orders',
+    queueName: 'orders-queue',
+    routingKey: 'orders.created',
+  };
+
+  const consumedMessage = (id: string) => ({
+    content: Buffer.from(JSON.stringify({ id })),
+    fields: { exchange: 'orders', routingKey: 'orders.created' },
+    properties: { headers: { 'x-send-type': 'json' } },
+  });
+
+  const createServer = async (ids: string[]) => {
+    const pending: Promise<void>[] = [];
+    consumeMock.mockReset();
+    consumeMock.mockImplementation((queueName, onMessage) => {
+      ids.forEach((id) => pending.push(onMessage(consumedMessage(id))));
+    });
+    initRabbitMock.mockReturnValueOnce(channelWrapper);
+    const server = new Server();
+    await server.init('fake-connection-url');
+
+    return { server, consumed: () => Promise.all(pending) };
+  };
+
+  beforeEach(() => {
+    setupR4bbit({
+      logger: {
+        engine: {
+          info: (str: string) => str,
+          debug: (str: string) => str,
+          error: (str: string) => str,
+        },
+      },
+    });
+  });
+
+  it('should wait for a handler to settle before taking the next message', async () => {
+    // given
+    const { server, consumed } = await createServer(['1', '2']);
+    const calls: string[] = [];
+    const handler = jest.fn(async ({ content }) => {
+      calls.push(`start ${content.id}`);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      calls.push(`end ${content.id}`);
+    });
+
+    // when
+    await server.registerRoute(connection, handler, {
+      concurrency: 1,
+      consumeOptions: { noAck: true },
+    });
+    await consumed();
+
+    // then
+    expect(calls).toEqual(['start 1', 'end 1', 'start 2', 'end 2']);
+    expect(consumeMock).toHaveBeenCalledWith(
+      'orders-queue',
+      expect.any(Function),
+      { noAck: true }
+    );
+  });
+
+  it('should not limit routes registered after a route with concurrency', async () => {
+    // given
+    const { server } = await createServer([]);
+
+    // when
+    await server.registerRoute(connection, jest.fn(), { concurrency: 1 });
+    await server.registerRoute(
+      { ...connection, queueName: 'audit-queue' },
+      jest.fn()
+    );
+
+    // then
+    expect(consumeMock).toHaveBeenNthCalledWith(
+      1,
+      'orders-queue',
+      expect.any(Function),
+      { noAck: false, prefetch: 1 }
+    );
+    expect(consumeMock).toHaveBeenNthCalledWith(
+      2,
+      'audit-queue',
+      expect.any(Function),
+      { noAck: false, prefetch: 0 }
+    );
+  });
+
+  it('should ack a resolved handler and nack a rejected one with autoAck', async () => {
+    // given
+    const { server, consumed } = await createServer(['1', '2']);
+    const handler = jest.fn(async ({ content }) => {
+      if (content.id === '2') {
+        throw new Error('Database unavailable');
+      }
+    });
+
+    // when
+    await server.registerRoute(connection, handler, { autoAck: true });
+    await consumed();
+
+    // then
+    expect(handler.mock.calls.map(([message]) => message)).toEqual([
+      { content: { id: '1' } },
+      { content: { id: '2' } },
+    ]);
+    expect(channelWrapper.ack).toHaveBeenCalledTimes(1);
+    expect(channelWrapper.ack).toHaveBeenCalledWith(
+      expect.objectContaining({ content: consumedMessage('1').content })
+    );
+    expect(channelWrapper.nack).toHaveBeenCalledTimes(1);
+    expect(channelWrapper.nack).toHaveBeenCalledWith(
+      expect.objectContaining({ content: consumedMessage('2').content })
+    );
+  });
+
+  it('should not ack a message a middleware has nacked already', async () => {
+    // given
+    const { server, consumed } = await createServer(['1']);
+    const handler = jest.fn();
+
+    // when
+    await server.registerRoute(connection, handler, {
+      autoAck: true,
+      middlewares: [({ nack }) => nack?.()],
+    });
+    await consumed();
+
+    // then
+    expect(handler).not.toHaveBeenCalled();
+    expect(channelWrapper.nack).toHaveBeenCalledTimes(1);
+    expect(channelWrapper.ack).not.toHaveBeenCalled();
+  });
+});
@@ -1,26 +1,140 @@
 import { ChannelWrapper, ConnectionUrl } from 'amqp-connection-manager';
-import { ConsumeMessage } from 'amqplib';
+import { ConsumeMessage, Message, Options } from 'amqplib';
 import { encodeMessage } from '../Common/encodeMessage/encodeMessage';
 import { prepareHeaders } from '../Common/prepareHeaders/prepareHeaders';
-import { HEADER_RECEIVE_TYPE } from '../Common/types';
+import { nanoid } from 'nanoid';
+import {
+  CANCEL_EXCHANGE_NAME,
+  DIRECT_REPLY_TO_QUEUE,
+  HEADER_ATTEMPT,
+  HEADER_CACHE_MAX_AGE,
+  HEADER_DEADLINE,
+  HEADER_RECEIVE_TYPE,
+  HEADER_REPLY_STATUS,
+  HEADER_SEND_TYPE,
+  HEADER_STREAM_END,
+  HEADER_STREAM_SEQ,
+  MessageType,
+  REPLY_STATUS_ERROR,
+} from '../Common/types';
 import { initRabbit } from '../Init/init';
 import { InitRabbitOptions } from '../Init/init.type';
 import {
   AckHandler,
   Handler,
+  Reply,
+  ReplyError,
+  RpcContext,
   RpcHandler,
+  RpcStreamHandler,
+  StreamWriter,
   ServerConnection,
   ServerRPCOptions,
   ServerOptions,
+  ServerContractOptions,
+  ServerRetryOptions,
+  DeadLetter,
+  DeadLetterListOptions,
+  DeadLetterReplayOptions,
+  DeadLetterReplayResult,
+  Middleware,
+  MiddlewareContext,
 } from './server.type';
 import { ConnectionSet } from '../Common/cache/cache';
 import { logMqClose } from '../Common/logger/utils/logMqMessage';
 import { prepareResponse } from '../Common/prepareResponse/prepareResponse';
 import { extractAndSetReqId } from '../Common/RequestTracer/extractAndSetReqId';
 import { logger } from '../Common/logger/logger';
+import { parseContract } from '../Common/contract/contract';
+import { toErrorEnvelope } from '../Common/remoteError/remoteError';
+import { ContractHandler, RpcContract } from '../Common/contract/contract.type';
+import {
+  ContractValidationError,
+  NotInitializedError,
+  R4bbitError,
+} from '../Common/errors/errors';
+import {
+  getDeadLetterQueueName,
+  getFailureDestination,
+  getReplayHeaders,
+  getRetryDelays,
+  isLastAttempt,
+  toDeadLetter,
+} from '../Common/deadLetter/deadLetter';
+import { composeMiddlewares } from '../Common/middleware/middleware';
+import { RateLimiter } from '../Common/rateLimiter/rateLimiter';
+
+type ReplyFrame = {
+  isError?: boolean;
+  // final frame acknowledges the request, no reply can be sent afterwards
+  isFinal?: boolean;
+  headers?: Record<string, unknown>;
+};
+
+const DEFAULT_DEAD_LETTER_LIMIT = 100;
+
+// stamped by the client from the timeout of the call
+const getDeadline = (consumeMessage: ConsumeMessage): number | undefined => {
+  const deadline = Number(consumeMessage.properties.headers?.[HEADER_DEADLINE]);
+  return deadline > 0 ? deadline : undefined;
+};
+
+// arguments of the route's queue declared through its connection
+const getQueueOptions = ({
+  maxPriority,
+}: ServerConnection): Options.AssertQueue =>
+  maxPriority ? { arguments: { 'x-max-priority': maxPriority } } : {};
+
+// prefetch stops the broker from delivering more than `concurrency` unacked messages to the consumer.
+// It sticks to the consumers created afterwards on the channel, so every route sets its own (0 is unlimited),
+// noAck consumers are not limited by it
+const getConsumeOptions = (
+  consumeOptions: Options.Consume | undefined,
+  concurrency: number | undefined
+): (Options.Consume & { prefetch?: number }) | undefined =>
+  consumeOptions?.noAck
+    ? consumeOptions
+    : { ...consumeOptions, prefetch: concurrency ?? 0 };
+
+// noAck consumers ignore prefetch, the limiter holds every message until its handler settles
+const getConcurrencyLimiter = (
+  queueName: string,
+  concurrency: number | undefined
+): RateLimiter | undefined =>
+  concurrency
+    ? new RateLimiter(queueName, { maxInFlight: concurrency })
+    : undefined;
+
+const runLimited = async (
+  limiter: RateLimiter | undefined,
+  handle: () => unknown
+): Promise<unknown> => {
+  if (!limiter) {
+    return handle();
+  }
+
+  const release = await limiter.acquire();
+  try {
+    return await handle();
+  } finally {
+    release();
+  }
+};
 
 export class Server {
   private channelWrapper?: ChannelWrapper;
+  private inFlight = new Map<
+    string,
+    { abortController: AbortController; consumeMessage: ConsumeMessage }
+  >();
+  private cancelQueueName = `cancel.${nanoid()}`;
+  private isListeningCancellations = false;
+  private repliedMessages = new WeakSet<ConsumeMessage>();
+  // messages already moved to a retry or dead-letter queue, e.g. nacked and then thrown
+  private failedMessages = new WeakSet<ConsumeMessage>();
+  // messages acked or nacked through an AckObj or a middleware, a second ack would close the channel
+  private settledMessages = new WeakSet<ConsumeMessage>();
+  private middlewares: Middleware[] = [];
 
   public init = async (
     connectionUrls: ConnectionUrl | ConnectionUrl[],
@@ -31,33 +145,76 @@ export class Server {
 
   public getWrapper(): ChannelWrapper {
     if (!this.channelWrapper) {
-      throw new Error('You have to trigger init method first');
+      throw new NotInitializedError('Server');
     }
 
     return this.channelWrapper;
   }
 
+  /**
+   * Adds a middleware run before the handlers of every route, including the ones
+   * registered already. Route middlewares (the middlewares option) run after it
+   */
+  use(middleware: Middleware): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
   async registerRoute(
     connection: ServerConnection,
     handlerFunction: Handler | AckHandler,
     options?: ServerOptions
   ): Promise<void> {
     if (!this.channelWrapper) {
-      throw new Error('You have to trigger init method first');
+      throw new NotInitializedError('Server');
     }
     let tempRequestId: string | undefined;
 
     const { exchangeName, queueName, routingKey } = connection;
+    const retry = options?.retry;
+    const isNoAck = !!options?.consumeOptions?.noAck;
+    const isAutoAck = !!options?.autoAck && !isNoAck;
+    const limiter = getConcurrencyLimiter(queueName, options?.concurrency);
+
+    const settle = (
+      consumeMessage: ConsumeMessage,
+      settleMessage: () => void
+    ) => {
+      return () => {
+        if (this.settledMessages.has(consumeMessage)) {
+          return;
+        }
+        this.settledMessages.add(consumeMessage);
+        settleMessage();
+      };
+    };
 
     const simpleAck = (consumeMessage: ConsumeMessage): (() => void) => {
-      return () => this.channelWrapper?.ack(consumeMessage);
+      return settle(consumeMessage, () =>
+        this.channelWrapper?.ack(consumeMessage)
+      );
     };
 
     const simpleNack = (consumeMessage: ConsumeMessage): (() => void) => {
-      return () => this.channelWrapper?.nack(consumeMessage);
+      return settle(
+        consumeMessage,
+        retry
+          ? () =>
+              this.moveFailedMessage(
+                connection,
+                consumeMessage,
+                retry,
+                new R4bbitError('Message was nacked by the handler'),
+                isNoAck
+              )
+          : () => this.channelWrapper?.nack(consumeMessage)
+      );
     };
 
-    const defaultConsumerOptions = options?.consumeOptions ?? { noAck: false };
+    const defaultConsumerOptions = getConsumeOptions(
+      options?.consumeOptions ?? { noAck: false },
+      options?.concurrency
+    );
 
     try {
       await ConnectionSet.assert(
@@ -65,20 +222,30 @@ export class Server {
         exchangeName,
         queueName,
         routingKey,
-        false
+        false,
+        getQueueOptions(connection)
       );
+      if (retry) {
+        await ConnectionSet.assertRetryQueues(
+          this.channelWrapper,
+          queueName,
+          getRetryDelays(retry)
+        );
+      }
 
       await this.channelWrapper.consume(
         queueName,
         (msg: ConsumeMessage) => {
           // if in options ack => ack !== undef (with acknowledgment)
           // if in options nack => ack === undef (no acknowledgment)
-          const onMessage = !options?.consumeOptions?.noAck
-            ? (handlerFunction as AckHandler)({
-                ack: simpleAck(msg),
-                nack: simpleNack(msg),
-              })
-            : (handlerFunction as Handler);
+          // with autoAck the handler's outcome acknowledges the message
+          const onMessage =
+            !isNoAck && !isAutoAck
+              ? (handlerFunction as AckHandler)({
+                  ack: simpleAck(msg),
+                  nack: simpleNack(msg),
+                })
+              : (handlerFunction as Handler);
           // if in options responseContains => prepareResponse
           const preparedResponse = prepareResponse(
             msg,
@@ -97,7 +264,78 @@ export class Server {
             action: 'receive',
             requestId: reqId,
           });
-          return onMessage(preparedResponse);
+          const handle = () =>
+            this.runMiddlewares(
+              options?.middlewares,
+              preparedResponse,
+              () => ({
+                ...this.getMiddlewareContext(connection, msg, reqId),
+                ...(!isNoAck
+                  ? { ack: simpleAck(msg), nack: simpleNack(msg) }
+                  : {}),
+              }),
+              onMessage
+            );
+          // a thrown error or a rejected promise counts as a failed attempt, unless the
+          // handler acked or nacked the message already
+          const onFailure = (err: unknown) => {
+            if (this.settledMessages.has(msg)) {
+              this.logFailedMessage(
+                connection,
+                msg,
+                err,
+                '💥 Handler failed after settling the message'
+              );
+              return;
+            }
+            if (retry) {
+              return this.moveFailedMessage(
+                connection,
+                msg,
+                retry,
+                err,
+                isNoAck
+              );
+            }
+
+            if (isNoAck) {
+              this.logFailedMessage(connection, msg, err, '💥 Handler failed');
+              return;
+            }
+            // without the retry option a failed autoAck handler requeues the message right away,
+            // a failed handler that acks on its own is dropped so it does not fail in a loop
+            this.logFailedMessage(
+              connection,
+              msg,
+              err,
+              isAutoAck
+                ? '💥 Handler failed, nacking the message'
+                : '💥 Handler failed, nacking the message without requeue'
+            );
+            if (isAutoAck) {
+              simpleNack(msg)();
+              return;
+            }
+            settle(msg, () => this.channelWrapper?.nack(msg, false, false))();
+          };
+
+          if (!retry && !isAutoAck) {
+            let handled: unknown;
+            try {
+              handled = limiter ? runLimited(limiter, handle) : handle();
+            } catch (err: unknown) {
+              return onFailure(err);
+            }
+            // the consumer does not await the handler, a rejection would go unhandled
+            return handled instanceof Promise
+              ? handled.catch(onFailure)
+              : handled;
+          }
+
+          return runLimited(limiter, handle).then(
+            () => isAutoAck && simpleAck(msg)(),
+            onFailure
+          );
         },
         defaultConsumerOptions
       );
@@ -125,81 +363,427 @@ export class Server {
     handlerFunction: RpcHandler,
     options?: ServerRPCOptions
   ): Promise<void> {
+    await this.consumeRPC(
+      connection,
+      (consumeMessage, preparedResponse, context) =>
+        handlerFunction(
+          this.reply(connection, consumeMessage, options),
+          this.replyError(connection, consumeMessage, options)
+        )(preparedResponse, context),
+      options
+    );
+  }
+
+  /**
+   * Registers an RPC route which answers with a stream of replies instead of
+   * a single one. Every chunk is published with a sequence number header and
+   * the stream is closed by an end (or error) frame, see publishRPCStream in client.ts
+   */
+  async registerRPCStreamRoute(
+    connection: ServerConnection,
+    handlerFunction: RpcStreamHandler,
+    options?: ServerRPCOptions
+  ): Promise<void> {
+    await this.consumeRPC(
+      connection,
+      async (consumeMessage, preparedResponse, context) => {
+        const stream = this.streamWriter(connection, consumeMessage, options);
+
+        try {
+          await handlerFunction(stream)(preparedResponse, context);
+        } catch (err) {
+          await stream.error(err as Error);
+        }
+      },
+      options
+    );
+  }
+
+  /**
+   * Registers an RPC route described by a contract. Requests that do not
+   * match the contract's requestSchema are answered with a ContractValidationError
+   * before they reach the handler; whatever the handler returns is sent back
+   * as the reply.
+   */
+  async implement<C extends RpcContract>(
+    contract: C,
+    queueName: string,
+    handlerFunction: ContractHandler<C>,
+    options?: ServerContractOptions
+  ): Promise<void> {
+    const { exchangeName, routingKey } = contract;
+    const connection = { exchangeName, routingKey, queueName };
+
+    await this.consumeRPC(
+      connection,
+      async (consumeMessage, preparedResponse, context) => {
+        const payload = parseContract(
+          contract,
+          'request',
+          preparedResponse.content
+        );
+        const response = await handlerFunction(payload, context);
+
+        await this.reply(
+          connection,
+          consumeMessage,
+          options
+        )(response as Record<string, unknown> | string);
+      },
+      { ...options, responseContains: { content: true } }
+    );
+  }
+
+  private reply =
+    (
+      connection: ServerConnection,
+      consumedMessage: ConsumeMessage | null,
+      options?: ServerRPCOptions
+    ): Reply =>
+    (replyMessage: Record<string, unknown> | string, replyOptions = {}) =>
+      this.sendReply(connection, consumedMessage, replyMessage, options, {
+        headers:
+          replyOptions.maxAge !== undefined
+            ? { [HEADER_CACHE_MAX_AGE]: replyOptions.maxAge }
+            : undefined,
+      });
+
+  private replyError =
+    (
+      connection: ServerConnection,
+      consumedMessage: ConsumeMessage | null,
+      options?: ServerRPCOptions,
+      headers?: Record<string, unknown>
+    ): ReplyError =>
+    (error: unknown) => {
+      const reqId = extractAndSetReqId(
+        consumedMessage?.properties.headers ?? {}
+      );
+
+      logger.communicationLog({
+        level: 'error',
+        error: {
+          description: '💥 Rpc handler failed, replying with an error',
+          message: (error as Error)?.message ?? String(error),
+          stack: (error as Error)?.stack || '',
+        },
+        action: 'receive',
+        data: consumedMessage ? prepareResponse(consumedMessage) : {},
+        actor: 'Rpc Server',
+        topic: connection.routingKey,
+        isDataHidden: options?.loggerOptions?.isConsumeDataHidden,
+        requestId: reqId,
+      });
+
+      return this.sendReply(
+        connection,
+        consumedMessage,
+        toErrorEnvelope(error, reqId),
+        options,
+        { isError: true, headers }
+      );
+    };
+
+  private streamWriter(
+    connection: ServerConnection,
+    consumedMessage: ConsumeMessage,
+    options?: ServerRPCOptions
+  ): StreamWriter {
+    let sequence = 0;
+
+    // the sequence number is taken synchronously so frames keep the order of calls
+    const nextFrameHeaders = (isEnd = false) => ({
+      [HEADER_STREAM_SEQ]: sequence++,
+      ...(isEnd ? { [HEADER_STREAM_END]: true } : {}),
+    });
+
+    return {
+      write: (chunk) =>
+        this.sendReply(connection, consumedMessage, chunk, options, {
+          isFinal: false,
+          headers: nextFrameHeaders(),
+        }),
+      end: () =>
+        this.sendReply(connection, consumedMessage, '', options, {
+          headers: nextFrameHeaders(true),
+        }),
+      error: (error) =>
+        this.replyError(
+          connection,
+          consumedMessage,
+          options,
+          nextFrameHeaders(true)
+        )(error),
+    };
+  }
+
+  private async sendReply(
+    connection: ServerConnection,
+    consumedMessage: ConsumeMessage | null,
+    replyMessage: Record<string, unknown> | string,
+    options?: ServerRPCOptions,
+    frame: ReplyFrame = {}
+  ): Promise<void> {
+    const { isError = false, isFinal = true, headers } = frame;
+
     if (!this.channelWrapper) {
-      throw new Error('You have to trigger init method first');
+      throw new NotInitializedError('Server');
     }
-    let tempRequestId: string | undefined;
-    const { exchangeName, queueName, routingKey } = connection;
 
-    const reply =
-      (consumedMessage: ConsumeMessage | null) =>
-      async (replyMessage: Record<string, unknown> | string) => {
-        if (!this.channelWrapper) {
-          throw new Error('You have to trigger init method first');
-        }
+    if (!consumedMessage) {
+      throw new R4bbitError('Consume message cannot be null');
+    }
 
-        if (!consumedMessage) {
-          throw new Error('Consume message cannot be null');
-        }
+    // a message can be answered only once, e.g. when the handler throws after replying
+    // or the client has already cancelled the request
+    if (this.repliedMessages.has(consumedMessage)) {
+      return;
+    }
+    if (isFinal) {
+      this.repliedMessages.add(consumedMessage);
+    }
 
-        const { replyTo, correlationId } = consumedMessage.properties;
+    const { routingKey } = connection;
+    const { replyTo, correlationId } = consumedMessage.properties;
+    // direct reply-to pseudo-queues are reachable only through the default exchange
+    const exchangeName = replyTo.startsWith(DIRECT_REPLY_TO_QUEUE)
+      ? ''
+      : connection.exchangeName;
 
-        const receiveType =
-          consumedMessage.properties.headers[HEADER_RECEIVE_TYPE];
+    const receiveType = isError
+      ? 'json'
+      : consumedMessage.properties.headers[HEADER_RECEIVE_TYPE];
 
-        const reqId = extractAndSetReqId(consumedMessage.properties.headers);
-        tempRequestId = reqId;
-        logger.communicationLog({
-          data: replyMessage,
-          actor: 'Rpc Server',
-          topic: replyTo,
-          isDataHidden: options?.loggerOptions?.isConsumeDataHidden,
-          action: 'publish',
-          requestId: reqId,
-        });
-        try {
-          await this.channelWrapper.publish(
-            exchangeName,
-            replyTo,
-            encodeMessage(replyMessage, receiveType),
-            {
-              ...options?.publishOptions,
-              correlationId,
-              headers: prepareHeaders({
-                isServer: true,
-                signature: options?.replySignature,
-                receiveType: receiveType,
-                requestId: reqId,
-              }),
-            }
-          );
+    const reqId = extractAndSetReqId(consumedMessage.properties.headers);
+    if (isFinal) {
+      this.inFlight.delete(correlationId);
+    }
 
-          this.channelWrapper.ack.call(this.channelWrapper, consumedMessage);
-        } catch (err) {
-          logger.communicationLog({
-            level: 'error',
-            error: {
-              description: '💥 An error occurred while sending message',
-              message: (err as Error).message,
-              stack: (err as Error).stack || '',
-            },
-            action: 'publish',
-            data: replyMessage,
-            actor: 'Rpc Server',
-            topic: routingKey,
-            isDataHidden: options?.loggerOptions?.isSendDataHidden,
-            requestId: tempRequestId,
-          });
+    logger.communicationLog({
+      data: replyMessage,
+      actor: 'Rpc Server',
+      topic: replyTo,
+      isDataHidden: options?.loggerOptions?.isConsumeDataHidden,
+      action: 'publish',
+      requestId: reqId,
+    });
+    try {
+      await this.channelWrapper.publish(
+        exchangeName,
+        replyTo,
+        encodeMessage(replyMessage, receiveType),
+        {
+          ...options?.publishOptions,
+          correlationId,
+          headers: {
+            ...prepareHeaders({
+              isServer: true,
+              signature: options?.replySignature,
+              receiveType: receiveType,
+              requestId: reqId,
+            }),
+            ...(isError ? { [HEADER_REPLY_STATUS]: REPLY_STATUS_ERROR } : {}),
+            ...headers,
+          },
         }
-      };
+      );
+
+      if (isFinal) {
+        this.channelWrapper.ack.call(this.channelWrapper, consumedMessage);
+      }
+    } catch (err) {
+      logger.communicationLog({
+        level: 'error',
+        error: {
+          description: '💥 An error occurred while sending message',
+          message: (err as Error).message,
+          stack: (err as Error).stack || '',
+        },
+        action: 'publish',
+        data: replyMessage,
+        actor: 'Rpc Server',
+        topic: routingKey,
+        isDataHidden: options?.loggerOptions?.isSendDataHidden,
+        requestId: reqId,
+      });
+    }
+  }
+
+  /**
+   * A failed rpc handler is answered with the error right away, with the retry
+   * option the request is retried first and the caller gets the error of the last attempt
+   */
+  private async failRPCMessage(
+    connection: ServerConnection,
+    consumeMessage: ConsumeMessage,
+    error: unknown,
+    options?: ServerRPCOptions
+  ): Promise<void> {
+    const { retry } = options ?? {};
+    const replyError = this.replyError(connection, consumeMessage, options);
+
+    // requests not matching the contract would fail the same way on every attempt,
+    // replied or cancelled requests are not retried either
+    if (
+      !retry ||
+      error instanceof ContractValidationError ||
+      this.repliedMessages.has(consumeMessage)
+    ) {
+      return replyError(error as Error);
+    }
+
+    if (!isLastAttempt(consumeMessage, retry)) {
+      // a reply sent by the handler after the failure would reach the caller too early
+      this.repliedMessages.add(consumeMessage);
+      this.inFlight.delete(consumeMessage.properties.correlationId);
+      return this.moveFailedMessage(
+        connection,
+        consumeMessage,
+        retry,
+        error,
+        !!options?.consumeOptions?.noAck
+      );
+    }
+
+    // the error reply acknowledges the request
+    await replyError(error as Error);
+    await this.moveFailedMessage(
+      connection,
+      consumeMessage,
+      retry,
+      error,
+      true
+    );
+  }
+
+  private logFailedMessage(
+    connection: ServerConnection,
+    consumeMessage: ConsumeMessage,
+    error: unknown,
+    description: string
+  ): void {
+    logger.communicationLog({
+      level: 'error',
+      error: {
+        description,
+        message: (error as Error)?.message ?? String(error),
+        stack: (error as Error)?.stack || '',
+      },
+      action: 'receive',
+      data: {},
+      actor: 'Server',
+      topic: connection.routingKey,
+      requestId: extractAndSetReqId(consumeMessage.properties.headers ?? {}),
+    });
+  }
+
+  /**
+   * Moves a message whose handler failed to the retry queue of its next attempt,
+   * or to the dead-letter queue of the route once maxAttempts is reached, and
+   * acknowledges the delivery. When moving fails the delivery is requeued instead.
+   *
+   * @param isAcked - the delivery is acknowledged already (noAck consumer or replied rpc)
+   */
+  private async moveFailedMessage(
+    connection: ServerConnection,
+    consumeMessage: ConsumeMessage,
+    retry: ServerRetryOptions,
+    error: unknown,
+    isAcked: boolean
+  ): Promise<void> {
+    const channelWrapper = this.getWrapper();
+    if (this.failedMessages.has(consumeMessage)) {
+      return;
+    }
+    this.failedMessages.add(consumeMessage);
+
+    const { queue, headers, isDeadLettered } = getFailureDestination(
+      consumeMessage,
+      connection.queueName,
+      retry,
+      error
+    );
+    const reqId = extractAndSetReqId(consumeMessage.properties.headers ?? {});
+
+    logger.communicationLog({
+      level: 'error',
+      error: {
+        description: isDeadLettered
+          ? '💥 Handler failed on the last attempt, moving message to the dead-letter queue'
+          : '💥 Handler failed, moving message to the retry queue',
+        message: (error as Error)?.message ?? String(error),
+        stack: (error as Error)?.stack || '',
+      },
+      action: 'publish',
+      data: { queue, attempt: headers[HEADER_ATTEMPT] },
+      actor: 'Server',
+      topic: connection.routingKey,
+      requestId: reqId,
+    });
+
+    try {
+      // the default exchange routes the message to that queue only
+      await channelWrapper.publish('', queue, consumeMessage.content, {
+        ...consumeMessage.properties,
+        // expiration is per delivery, a deadline header keeps stale rpc requests out
+        expiration: undefined,
+        headers,
+      });
+      if (!isAcked) {
+        channelWrapper.ack(consumeMessage);
+      }
+    } catch (err) {
+      logger.communicationLog({
+        level: 'error',
+        error: {
+          description: `💥 Could not move the failed message to ${queue}, requeueing it`,
+          message: (err as Error).message,
+          stack: (err as Error).stack || '',
+        },
+        action: 'publish',
+        data: {},
+        actor: 'Server',
+        topic: connection.routingKey,
+        requestId: reqId,
+      });
+      if (!isAcked) {
+        channelWrapper.nack(consumeMessage);
+      }
+    }
+  }
+
+  private async consumeRPC(
+    connection: ServerConnection,
+    onMessage: (
+      consumeMessage: ConsumeMessage,
+      preparedResponse: ReturnType<typeof prepareResponse>,
+      context: RpcContext
+    ) => unknown,
+    options?: ServerRPCOptions
+  ): Promise<void> {
+    if (!this.channelWrapper) {
+      throw new NotInitializedError('Server');
+    }
+    let tempRequestId: string | undefined;
+    const { exchangeName, queueName, routingKey } = connection;
+    const limiter = getConcurrencyLimiter(queueName, options?.concurrency);
 
     await ConnectionSet.assert(
       this.channelWrapper,
       exchangeName,
       queueName,
       routingKey,
-      false
+      false,
+      getQueueOptions(connection)
     );
+    if (options?.retry) {
+      await ConnectionSet.assertRetryQueues(
+        this.channelWrapper,
+        queueName,
+        getRetryDelays(options.retry)
+      );
+    }
+    await this.listenCancellations(routingKey);
 
     try {
       await this.channelWrapper.consume(
@@ -210,6 +794,7 @@ export class Server {
             consumeMessage.properties.headers
           );
           const reqId = extractAndSetReqId(consumeMessage.properties.headers);
+          tempRequestId = reqId;
           const preparedResponse = prepareResponse(consumeMessage, {
             ...options?.responseContains,
             signature: false,
@@ -222,9 +807,60 @@ export class Server {
             action: 'receive',
             requestId: reqId,
           });
-          return handlerFunction(reply(consumeMessage))(preparedResponse);
+          const { correlationId } = consumeMessage.properties;
+          const deadline = getDeadline(consumeMessage);
+
+          // the caller has given up already, nobody would read the reply
+          if (deadline !== undefined && deadline <= Date.now()) {
+            logger.info(
+              `⌛ Rpc message ${correlationId} to ${routingKey} expired ${
+                Date.now() - deadline
+              }ms ago, dropped without calling the handler`
+            );
+            if (!options?.consumeOptions?.noAck) {
+              this.channelWrapper?.ack(consumeMessage);
+            }
+            return;
+          }
+
+          const abortController = new AbortController();
+          correlationId &&
+            this.inFlight.set(correlationId, {
+              abortController,
+              consumeMessage,
+            });
+
+          const onFailure = (err: unknown) =>
+            this.failRPCMessage(connection, consumeMessage, err, options);
+
+          const context: RpcContext = {
+            signal: abortController.signal,
+            deadline,
+            remainingTime: () =>
+              deadline === undefined
+                ? undefined
+                : Math.max(0, deadline - Date.now()),
+          };
+
+          // a thrown error or a rejected promise is sent back to the caller
+          return runLimited(limiter, () =>
+            this.runMiddlewares(
+              options?.middlewares,
+              preparedResponse,
+              () => ({
+                ...this.getMiddlewareContext(connection, consumeMessage, reqId),
+                reply: this.reply(connection, consumeMessage, options),
+                replyError: this.replyError(
+                  connection,
+                  consumeMessage,
+                  options
+                ),
+              }),
+              (message) => onMessage(consumeMessage, message, context)
+            )
+          ).catch(onFailure);
         },
-        options?.consumeOptions
+        getConsumeOptions(options?.consumeOptions, options?.concurrency)
       );
     } catch (err) {
       logger.communicationLog({
@@ -244,6 +880,206 @@ export class Server {
     }
   }
 
+  private getMiddlewareContext(
+    { exchangeName, queueName }: ServerConnection,
+    consumeMessage: ConsumeMessage,
+    requestId: string
+  ): Omit<MiddlewareContext, 'message' | 'state'> {
+    return {
+      headers: consumeMessage.properties.headers ?? {},
+      exchangeName,
+      routingKey: consumeMessage.fields.routingKey,
+      queueName,
+      requestId,
+      consumeMessage,
+    };
+  }
+
+  // without middlewares the handler is called right away, a sync throw stays sync
+  private runMiddlewares(
+    routeMiddlewares: Middleware[] = [],
+    message: Record<string, unknown>,
+    getContext: () => Omit<MiddlewareContext, 'message' | 'state'>,
+    handler: (message: Record<string, unknown>) => unknown
+  ): unknown {
+    const middlewares = [...this.middlewares, ...routeMiddlewares];
+    if (middlewares.length === 0) {
+      return handler(message);
+    }
+
+    return composeMiddlewares(middlewares)(
+      { ...getContext(), message, state: {} },
+      (context) => handler(context.message)
+    );
+  }
+
+  /**
+   * Every server instance has its own exclusive queue bound to the cancel exchange
+   * with the routing keys of its rpc routes, so a cancellation reaches whichever
+   * instance took the request
+   */
+  private async listenCancellations(routingKey: string): Promise<void> {
+    const channelWrapper = this.getWrapper();
+
+    await ConnectionSet.assert(
+      channelWrapper,
+      CANCEL_EXCHANGE_NAME,
+      this.cancelQueueName,
+      routingKey,
+      true
+    );
+
+    if (this.isListeningCancellations) {
+      return;
+    }
+    this.isListeningCancellations = true;
+
+    await channelWrapper.consume(
+      this.cancelQueueName,
+      (msg: ConsumeMessage) => {
+        const { correlationId } = msg.properties;
+        const reqId = extractAndSetReqId(msg.properties.headers);
+
+        logger.communicationLog({
+          data: { correlationId },
+          actor: 'Rpc Server',
+          topic: msg.fields.routingKey,
+          action: 'receive',
+          requestId: reqId,
+        });
+        const inFlight = this.inFlight.get(correlationId);
+        if (!inFlight) {
+          return;
+        }
+
+        // nobody waits for the reply anymore, the request is acked right away
+        this.inFlight.delete(correlationId);
+        this.repliedMessages.add(inFlight.consumeMessage);
+        this.channelWrapper?.ack(inFlight.consumeMessage);
+        inFlight.abortController.abort();
+      },
+      { noAck: true }
+    );
+  }
+
+  /**
+   * Lists the messages in the dead-letter queue of a route (see the retry option).
+   * They are fetched and requeued, the queue is left as it was
+   */
+  async listDeadLetters(
+    queueName: string,
+    { limit = DEFAULT_DEAD_LETTER_LIMIT }: DeadLetterListOptions = {}
+  ): Promise<DeadLetter[]> {
+    const channelWrapper = this.getWrapper();
+    const messages = await this.fetchDeadLetters(queueName, limit);
+    messages.forEach((message) => channelWrapper.nack(message, false, true));
+
+    return messages.map(toDeadLetter);
+  }
+
+  /**
+   * Publishes messages of the dead-letter queue of a route back to the exchange
+   * and routing key they were originally published to, with a fresh retry budget.
+   * Skipped messages and the ones which could not be published stay in the queue
+   */
+  async replayDeadLetters(
+    queueName: string,
+    {
+      limit = DEFAULT_DEAD_LETTER_LIMIT,
+      filter,
+      transform,
+    }: DeadLetterReplayOptions = {}
+  ): Promise<DeadLetterReplayResult> {
+    const channelWrapper = this.getWrapper();
+    const messages = await this.fetchDeadLetters(queueName, limit);
+    const result: DeadLetterReplayResult = {
+      replayed: 0,
+      skipped: 0,
+      failed: [],
+    };
+
+    for (const message of messages) {
+      const deadLetter = toDeadLetter(message);
+      if (filter && !filter(deadLetter)) {
+        channelWrapper.nack(message, false, true);
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        const content = transform
+          ? encodeMessage(
+              transform(deadLetter.content, deadLetter),
+              deadLetter.headers[HEADER_SEND_TYPE] as MessageType
+            )
+          : message.content;
+        await channelWrapper.publish(
+          deadLetter.exchangeName,
+          deadLetter.routingKey,
+          content,
+          {
+            ...message.properties,
+            headers: getReplayHeaders(message.properties.headers),
+          }
+        );
+        channelWrapper.ack(message);
+        result.replayed++;
+      } catch (error) {
+        channelWrapper.nack(message, false, true);
+        result.failed.push({ deadLetter, error });
+      }
+    }
+
+    logger.communicationLog({
+      ...(result.failed.length > 0
+        ? {
+            level: 'error',
+            error: {
+              description: `💥 ${result.failed.length} dead-lettered messages were not replayed`,
+              message:
+                (result.failed[0].error as Error)?.message ??
+                String(result.failed[0].error),
+              stack: (result.failed[0].error as Error)?.stack || '',
+            },
+          }
+        : {}),
+      data: { replayed: result.replayed, skipped: result.skipped },
+      actor: 'Server',
+      topic: getDeadLetterQueueName(queueName),
+      action: 'publish',
+    });
+
+    return result;
+  }
+
+  // messages stay unacked until the caller acks or requeues them
+  private async fetchDeadLetters(
+    queueName: string,
+    limit: number
+  ): Promise<Message[]> {
+    const channelWrapper = this.getWrapper();
+    const deadLetterQueue = getDeadLetterQueueName(queueName);
+    const messages: Message[] = [];
+
+    try {
+      // getting from a missing queue would close the channel
+      await channelWrapper.assertQueue(deadLetterQueue);
+
+      while (messages.length < limit) {
+        const message = await channelWrapper.get(deadLetterQueue);
+        if (!message) {
+          break;
+        }
+        messages.push(message);
+      }
+    } catch (err) {
+      messages.forEach((message) => channelWrapper.nack(message, false, true));
+      throw err;
+    }
+
+    return messages;
+  }
+
   async close() {
     logMqClose('Server');
     const channelWrapper = this.getWrapper();
@@ -1,10 +1,27 @@
 import { Options } from 'amqp-connection-manager';
+import { ConsumeMessage } from 'amqplib';
 import { MessageType, ResponseContains } from '../Common/types';
 import { ServerResponseContains } from '../Common/types';
 
-export type Handler = (msg: string | Record<string, unknown>) => void;
+// a returned promise is awaited, see the concurrency and autoAck options
+export type Handler = (
+  msg: string | Record<string, unknown>
+) => void | Promise<void>;
 
-export type ServerRPCHandler = (msg: string | Record<string, unknown>) => void;
+// Additional information about the rpc message being handled
+export type RpcContext = {
+  // aborted when the caller cancels the request, so expensive work can be stopped
+  signal: AbortSignal;
+  // epoch ms after which the caller does not wait for the reply anymore
+  deadline?: number;
+  // ms left until the deadline, e.g. the timeout of nested rpc calls, undefined without a deadline
+  remainingTime: () => number | undefined;
+};
+
+export type ServerRPCHandler = (
+  msg: string | Record<string, unknown>,
+  context: RpcContext
+) => void | Promise<void>;
 
 export type AckFunction = () => void;
 
@@ -18,18 +35,132 @@ export type AckHandler = (ackObj: AckObj) => Handler;
 // A function used in RPC process that let user send a response of an RPC method to a queue
 // for implementation check registerRPCRoute in server.ts
 export type Reply = (
-  replyMessage: Record<string, unknown> | string
+  replyMessage: Record<string, unknown> | string,
+  replyOptions?: ReplyOptions
 ) => Promise<void>;
-export type RpcHandler = (reply: Reply) => ServerRPCHandler;
+
+export type ReplyOptions = {
+  // seconds the caller may cache the reply for (see the cache option of publishRPCMessage), 0 forbids caching
+  maxAge?: number;
+};
+
+export type RpcErrorPayload = {
+  message: string;
+  name?: string;
+  code?: string;
+  details?: unknown;
+};
+
+// Answers an RPC call with an error, the caller's promise rejects with RemoteRpcError
+// the same happens automatically when the handler throws or its promise rejects
+export type ReplyError = (error: Error | RpcErrorPayload) => Promise<void>;
+
+export type RpcHandler = (
+  reply: Reply,
+  replyError: ReplyError
+) => ServerRPCHandler;
+
+// Lets the handler of a streaming RPC route send many replies to one request
+// for implementation check registerRPCStreamRoute in server.ts
+export type StreamWriter = {
+  write: (chunk: Record<string, unknown> | string) => Promise<void>;
+  end: () => Promise<void>;
+  error: (error: Error | RpcErrorPayload) => Promise<void>;
+};
+export type RpcStreamHandler = (stream: StreamWriter) => ServerRPCHandler;
+
+// What middlewares know about the consumed message, see Server.use
+export type MiddlewareContext = {
+  // passed to the handler, a middleware may replace it e.g. with a validated payload
+  message: Record<string, unknown>;
+  headers: Record<string, unknown>;
+  exchangeName: string;
+  // routing key the message was published with
+  routingKey: string;
+  queueName: string;
+  requestId?: string;
+  consumeMessage: ConsumeMessage;
+  // rpc routes only, answering without calling next skips the handler
+  reply?: Reply;
+  replyError?: ReplyError;
+  // routes consumed with acknowledgment only, same as the ones given to an AckHandler
+  ack?: AckFunction;
+  nack?: AckFunction;
+  // shared by the middlewares of one message, e.g. the authenticated user
+  state: Record<string, unknown>;
+};
+
+// Runs the rest of the chain and the handler when calling next, awaiting it wraps the handler.
+// A thrown error fails the message like a throwing handler
+export type Middleware = (
+  context: MiddlewareContext,
+  next: () => Promise<void>
+) => Promise<void> | void;
 
 export type ServerConnection = {
   queueName: string;
   routingKey: string;
   exchangeName: string;
+  // declares a priority queue, messages with a higher priority (up to maxPriority) are consumed first
+  maxPriority?: number;
+};
+
+// A failed handler (thrown error, rejected promise or nack) does not requeue the message
+// right away, it waits in a ttl queue and is redelivered to the route's queue.
+// Once maxAttempts is reached the message moves to the dead-letter queue `<queueName>.dlq`
+export type ServerRetryOptions = {
+  // total number of attempts, including the first one
+  maxAttempts: number;
+  // ms to wait before the 2nd, 3rd... attempt, the last one is reused for further attempts (default [1000])
+  delays?: number[];
+};
+
+// A message of the dead-letter queue of a route, see Server.listDeadLetters
+export type DeadLetter = {
+  // decoded like any consumed message, the raw string when it cannot be decoded
+  content: unknown;
+  headers: Record<string, unknown>;
+  // where the message was originally published to, replays go there
+  exchangeName: string;
+  routingKey: string;
+  attempts: number;
+  error: {
+    name: string;
+    message: string;
+  };
+  failedAt?: string;
+  requestId?: string;
+};
+
+export type DeadLetterListOptions = {
+  // max number of messages taken from the head of the queue (default 100)
+  limit?: number;
+};
+
+export type DeadLetterReplayOptions = DeadLetterListOptions & {
+  // replays only the matching messages, the others stay in the queue
+  filter?: (deadLetter: DeadLetter) => boolean;
+  // payload published instead of the original content, encoded with the original send type
+  transform?: (content: unknown, deadLetter: DeadLetter) => unknown;
+};
+
+export type DeadLetterReplayResult = {
+  replayed: number;
+  // filtered out, still in the dead-letter queue
+  skipped: number;
+  // still in the dead-letter queue as well
+  failed: { deadLetter: DeadLetter; error: unknown }[];
 };
 
 export type ServerOptions = {
   consumeOptions?: Options.Consume;
+  // max number of messages handled at once, the next message waits until a handler settles
+  concurrency?: number;
+  // the handler gets no AckObj, the message is acked once it resolves and nacked when it throws
+  autoAck?: boolean;
+  retry?: ServerRetryOptions;
+  // run after the ones added with Server.use
+  middlewares?: Middleware[];
   responseContains?: ServerResponseContains;
   loggerOptions?: {
     isDataHidden?: boolean;
@@ -39,6 +170,12 @@ export type ServerOptions = {
 export type ServerRPCOptions = {
   publishOptions?: Options.Publish;
   consumeOptions?: Options.Consume;
+  // max number of requests handled at once, the next request waits until a handler settles
+  concurrency?: number;
+  // the caller gets the error reply only once the last attempt failed
+  retry?: ServerRetryOptions;
+  // run after the ones added with Server.use
+  middlewares?: Middleware[];
   sendType?: MessageType;
   correlationId?: string;
   replySignature?: string;
@@ -48,3 +185,5 @@ export type ServerRPCOptions = {
     isConsumeDataHidden?: boolean;
   };
 };
+
+export type ServerContractOptions = Omit<ServerRPCOptions, 'responseContains'>;
@@ -1,8 +1,30 @@
 import { getServer } from './Server/server';
 import { getClient } from './Client/client';
 import { setupR4bbit } from './Common/setupRabbit/setupRabbit';
+import { defineContract } from './Common/contract/contract';
+import { MemoryCacheStore } from './Common/responseCache/responseCache';
+import {
+  CircuitOpenError,
+  ConnectionError,
+  ContractValidationError,
+  DecodeError,
+  EncodeError,
+  InvalidUriError,
+  MissingRespondersError,
+  NotInitializedError,
+  QuorumNotReachedError,
+  R4bbitError,
+  RateLimitError,
+  RemoteRpcError,
+  RpcAbortedError,
+  RpcRetryError,
+  RpcTimeoutError,
+  TopologyMismatchError,
+  UnroutableMessageError,
+} from './Common/errors/errors';
 import * as ServerTypes from './Server/server.type';
 import * as ClientTypes from './Client/client.type';
+import * as ContractTypes from './Common/contract/contract.type';
 import { Client } from './Client/client';
 import { Server } from './Server/server';
 
@@ -10,8 +32,28 @@ export {
   getServer,
   getClient,
   setupR4bbit,
+  defineContract,
+  MemoryCacheStore,
+  R4bbitError,
+  CircuitOpenError,
+  ConnectionError,
+  ContractValidationError,
+  DecodeError,
+  EncodeError,
+  InvalidUriError,
+  MissingRespondersError,
+  NotInitializedError,
+  QuorumNotReachedError,
+  RateLimitError,
+  RpcAbortedError,
+  RemoteRpcError,
+  RpcRetryError,
+  RpcTimeoutError,
+  TopologyMismatchError,
+  UnroutableMessageError,
   ServerTypes,
   ClientTypes,
+  ContractTypes,
   Client,
   Server,
 };